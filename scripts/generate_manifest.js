@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { XacroParser } from 'xacro-parser';
 
 // Define __dirname for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -26,6 +28,33 @@ function getFiles(dir, fileList = []) {
   return fileList;
 }
 
+// MJCF models are .xml files with a <mujoco> root
+function isMjcfFile(filename) {
+    if (!filename.toLowerCase().endsWith('.xml')) return false;
+    const content = fs.readFileSync(filename, 'utf8');
+    return /^\s*(<\?[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*)*<mujoco[\s>/]/.test(content);
+}
+
+// MJCF files pulled in by an <include> of another MJCF file are parts, not models
+function getIncludedMjcfFiles(mjcfFiles) {
+    const included = new Set();
+    for (const filePath of mjcfFiles) {
+        const content = fs.readFileSync(filePath, 'utf8');
+        const regex = /<include\s+file\s*=\s*["']([^"']+)["']/g;
+        let match;
+        while ((match = regex.exec(content)) !== null) {
+            included.add(path.resolve(path.dirname(filePath), match[1]));
+        }
+    }
+    return included;
+}
+
+// Gazebo models and worlds; every one of them can be opened on its own
+function isSdfFile(filename) {
+    const lower = filename.toLowerCase();
+    return lower.endsWith('.sdf') || lower.endsWith('.world');
+}
+
 function isEntryFile(filename) {
     const lower = filename.toLowerCase();
     
@@ -50,20 +79,189 @@ function isEntryFile(filename) {
     return false;
 }
 
+const MESH_EXTENSIONS = ['stl', 'dae', 'obj', 'gltf', 'glb', 'ply', '3mf'];
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+const relativeToPublic = (filePath) => path.relative(PUBLIC_DIR, filePath).replace(/\\/g, '/');
+
+function sampleFormat(filePath) {
+    const lower = filePath.toLowerCase();
+    if (lower.endsWith('.urdf')) return 'urdf';
+    if (lower.endsWith('.xacro')) return 'xacro';
+    if (lower.endsWith('.xml')) return 'mjcf';
+    return 'sdf';
+}
+
+// $(find pkg)/..., model://pkg/... and package://pkg/... are folders of public/ for the samples
+function resolveInclude(filename, fromFile) {
+    const substituted = filename
+        .replace(/^\$\(find\s+([^)\s]+)\)/, (_, pkg) => path.join(PUBLIC_DIR, pkg))
+        .replace(/^(model|package):\/\//, () => PUBLIC_DIR + '/');
+    const resolved = path.resolve(path.dirname(fromFile), substituted);
+    if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+        // model://name points at a model folder; its model.config names the SDF file
+        const config = path.join(resolved, 'model.config');
+        const sdf = fs.existsSync(config) && fs.readFileSync(config, 'utf8').match(/<sdf[^>]*>\s*([^<\s]+)\s*<\/sdf>/);
+        return path.join(resolved, sdf ? sdf[1] : 'model.sdf');
+    }
+    return resolved;
+}
+
+// Text of the file with its xacro/MJCF/SDF includes pasted in place; every SDF include counts once per instance
+function inlineIncludes(filePath, stack = []) {
+    if (stack.includes(filePath) || !fs.existsSync(filePath)) return '';
+    const content = fs.readFileSync(filePath, 'utf8').replace(/<!--[\s\S]*?-->/g, '');
+    const include = (filename) => inlineIncludes(resolveInclude(filename, filePath), [...stack, filePath]);
+    return content
+        .replace(/<xacro:include\s[^>]*?filename\s*=\s*["']([^"']+)["'][^>]*>/g, (_, f) => include(f))
+        .replace(/<include\s[^>]*?file\s*=\s*["']([^"']+)["'][^>]*>/g, (_, f) => include(f))
+        .replace(/<include>[\s\S]*?<uri>\s*([^<\s]+)\s*<\/uri>[\s\S]*?<\/include>/g, (_, f) => include(f));
+}
+
+// xacro-parser parses with the global DOMParser, which Node does not have
+globalThis.DOMParser = class {
+    parseFromString(text, mimeType) {
+        return new DOMParser({ onError: () => {} }).parseFromString(text, mimeType);
+    }
+};
+
+// The URDF a xacro file expands to with its default arguments, or null if it does not expand
+async function expandXacro(filePath) {
+    const parser = new XacroParser();
+    parser.workingPath = path.dirname(filePath) + '/';
+    parser.rospackCommands = { find: (pkg) => path.join(PUBLIC_DIR, pkg) };
+    parser.getFileContents = (filename) => fs.promises.readFile(filename, 'utf8');
+    try {
+        const xml = await parser.parse(fs.readFileSync(filePath, 'utf8'));
+        return new XMLSerializer().serializeToString(xml).replace(/<!--[\s\S]*?-->/g, '');
+    } catch (e) {
+        console.warn(`   Could not expand ${relativeToPublic(filePath)}: ${e.message}`);
+        return null;
+    }
+}
+
+const attribute = (tag, name) => tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+const sum = (values) => values.reduce((a, b) => a + b, 0);
+// Total of the given masses, or null if there are none or one is not a number
+const totalMass = (masses) => (masses.length > 0 && masses.every(Number.isFinite) ? Math.round(sum(masses) * 1000) / 1000 : null);
+
+const URDF_DOF = { revolute: 1, continuous: 1, prismatic: 1, planar: 2, floating: 6, fixed: 0 };
+const SDF_DOF = { revolute: 1, continuous: 1, prismatic: 1, screw: 1, gearbox: 1, universal: 2, revolute2: 2, ball: 3, fixed: 0 };
+const MJCF_DOF = { hinge: 1, slide: 1, ball: 3, free: 6 };
+
+// Counts of links and joints, degrees of freedom and total mass, read from the text. Xacro models are
+// counted once expanded; one that failed to expand and uses macros or conditionals is left out (null).
+function describeKinematics(text, format) {
+    const unknown = { links: null, joints: null, dof: null, mass: null };
+    if (format === 'urdf' || format === 'xacro') {
+        if (/<xacro:(macro|if|unless)\b/.test(text)) return unknown;
+        const joints = text.match(/<joint\s[^>]*>/g) || [];
+        const masses = (text.match(/<mass\s[^>]*>/g) || []).map(tag => parseFloat(attribute(tag, 'value')));
+        return {
+            links: (text.match(/<link\s[^>]*\bname\s*=/g) || []).length,
+            joints: joints.length,
+            dof: sum(joints.map(tag => URDF_DOF[attribute(tag, 'type')] ?? 0)),
+            mass: totalMass(masses),
+        };
+    }
+    if (format === 'mjcf') {
+        const worldbody = text.match(/<worldbody>([\s\S]*)<\/worldbody>/)?.[1] ?? '';
+        const bodies = (worldbody.match(/<body[\s>]/g) || []).length;
+        const joints = worldbody.match(/<(joint|freejoint)[\s/>][^>]*>/g) || [];
+        const inertials = (worldbody.match(/<inertial\s[^>]*>/g) || []).map(tag => parseFloat(attribute(tag, 'mass')));
+        return {
+            links: bodies,
+            joints: joints.length,
+            // Types set through default classes are not followed; hinge and slide both count one
+            dof: sum(joints.map(tag => (tag.startsWith('<freejoint') ? 6 : MJCF_DOF[attribute(tag, 'type') ?? 'hinge'] ?? 1))),
+            // Bodies without <inertial> take their mass from the geoms, which only the importer computes
+            mass: inertials.length === bodies ? totalMass(inertials) : null,
+        };
+    }
+    const joints = text.match(/<joint\s[^>]*>/g) || [];
+    const masses = (text.match(/<mass>([^<]*)<\/mass>/g) || []).map(tag => parseFloat(tag.replace(/<\/?mass>/g, '')));
+    return {
+        links: (text.match(/<link\s[^>]*\bname\s*=/g) || []).length,
+        joints: joints.length,
+        dof: sum(joints.map(tag => SDF_DOF[attribute(tag, 'type')] ?? 0)),
+        mass: totalMass(masses),
+    };
+}
+
+function robotName(text, format) {
+    const root = { mjcf: /<mujoco\s[^>]*>/, sdf: /<(world|model)\s[^>]*>/ }[format] ?? /<robot\s[^>]*>/;
+    const tag = text.match(root)?.[0];
+    const name = tag && attribute(tag, format === 'mjcf' ? 'model' : 'name');
+    return name && !name.includes('$') ? name : null;
+}
+
+function meshFormats(text) {
+    const formats = new Set();
+    const regex = /(?:filename|file)\s*=\s*["']([^"']+)["']|<uri>\s*([^<\s]+)\s*<\/uri>/g;
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+        const ext = (match[1] || match[2]).split('.').pop().toLowerCase();
+        if (MESH_EXTENSIONS.includes(ext)) formats.add(ext);
+    }
+    return [...formats].sort();
+}
+
+// Top-level folder of a sample, or null for files directly in public/
+function sampleFolder(filePath) {
+    const first = relativeToPublic(filePath).split('/')[0];
+    const folder = path.join(PUBLIC_DIR, first);
+    return fs.statSync(folder).isDirectory() ? folder : null;
+}
+
+// A LICENSE/COPYING file (e.g. cassie_license.txt) at the top of the sample folder
+function findLicense(filePath) {
+    const folder = sampleFolder(filePath);
+    if (!folder) return null;
+    const license = fs.readdirSync(folder).find(f => /licen[cs]e|copying/i.test(f) && fs.statSync(path.join(folder, f)).isFile());
+    return license ? relativeToPublic(path.join(folder, license)) : null;
+}
+
+// Optional pre-rendered image: <entry>.png next to the entry, or thumbnail.png there or at the top of the sample folder
+function findThumbnail(filePath) {
+    const base = filePath.slice(0, filePath.length - path.extname(filePath).length);
+    const dirs = [path.dirname(filePath), sampleFolder(filePath)].filter(Boolean);
+    const candidates = [
+        ...IMAGE_EXTENSIONS.map(ext => `${base}.${ext}`),
+        ...dirs.flatMap(dir => IMAGE_EXTENSIONS.map(ext => path.join(dir, `thumbnail.${ext}`))),
+    ];
+    const found = candidates.find(f => fs.existsSync(f));
+    return found ? relativeToPublic(found) : null;
+}
+
+async function describeSample(filePath) {
+    const format = sampleFormat(filePath);
+    const text = (format === 'xacro' && await expandXacro(filePath)) || inlineIncludes(filePath);
+    return {
+        path: relativeToPublic(filePath),
+        name: robotName(text, format),
+        format,
+        ...describeKinematics(text, format),
+        meshFormats: meshFormats(text),
+        license: findLicense(filePath),
+        thumbnail: findThumbnail(filePath),
+    };
+}
+
 try {
     const allFiles = getFiles(PUBLIC_DIR);
-    const sampleFiles = [];
+    const samples = [];
+    const mjcfFiles = allFiles.filter(isMjcfFile);
+    const includedMjcfFiles = getIncludedMjcfFiles(mjcfFiles);
 
     for (const filePath of allFiles) {
-        if (isEntryFile(filePath)) {
-            // Force forward slashes for URL compatibility
-            const relPath = path.relative(PUBLIC_DIR, filePath).replace(/\\/g, '/');
-            sampleFiles.push(relPath);
+        const isMjcfEntry = mjcfFiles.includes(filePath) && !includedMjcfFiles.has(path.resolve(filePath));
+        if (isEntryFile(filePath) || isMjcfEntry || isSdfFile(filePath)) {
+            samples.push(await describeSample(filePath));
         }
     }
 
-    fs.writeFileSync(OUTPUT_MANIFEST, JSON.stringify(sampleFiles, null, 2));
-    console.log(`\u2705 Success! Manifest created with ${sampleFiles.length} samples.`);
+    fs.writeFileSync(OUTPUT_MANIFEST, JSON.stringify(samples, null, 2));
+    console.log(`\u2705 Success! Manifest created with ${samples.length} samples.`);
     console.log(`   Location: ${OUTPUT_MANIFEST}`);
 } catch (e) {
     console.error("\u274C Error scanning files:", e);
@@ -1,16 +1,50 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import URDFLoader, { URDFRobot, URDFJoint } from 'urdf-loader';
-import { XacroParser } from 'xacro-parser';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { URDFRobot, URDFJoint } from 'urdf-loader';
 import * as THREE from 'three';
-import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
-import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
-import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
-import Viewer from './components/Viewer';
+import Viewer, { CameraControl, CollisionMode, GizmoMode } from './components/Viewer';
 import JointController from './components/JointController';
 import DisplayOptions from './components/DisplayOptions';
 import InfoPopup from './components/InfoPopup';
 import StructureTree from './components/StructureTree';
-import { getAllFiles, findFileInMap } from './utils/fileUtils';
+import MassPropertiesPanel from './components/MassPropertiesPanel';
+import ProblemsPanel from './components/ProblemsPanel';
+import XacroArgsPanel from './components/XacroArgsPanel';
+import PackagesDialog from './components/PackagesDialog';
+import AssetsPanel from './components/AssetsPanel';
+import ExportDialog, { ExportSettings } from './components/ExportDialog';
+import GltfExportDialog from './components/GltfExportDialog';
+import EntryFileDialog from './components/EntryFileDialog';
+import SourceEditor from './components/SourceEditor';
+import SampleGallery from './components/SampleGallery';
+import LevelOfDetailPanel from './components/LevelOfDetailPanel';
+import ScenePanel from './components/ScenePanel';
+import DiffPanel from './components/DiffPanel';
+import { buildDeepLink, parseDeepLink } from './utils/deepLink';
+import { parseManifest, SampleInfo } from './utils/samples';
+import { emitModelLoaded, LoadProgress } from './utils/loadProgress';
+import { getAllFiles, findPathInMap } from './utils/fileUtils';
+import { handleSignature, pickDirectory, pickedFileSignature, readDirectoryHandle, supportsDirectoryHandles, watchFiles } from './utils/folderWatch';
+import { describeEntryCandidates, EntryCandidate, folderKey, loadEntryChoice, preselectEntry, saveEntryChoice } from './utils/entryFiles';
+import { expandArchives, extractArchive, isArchiveFile } from './utils/archive';
+import { computeMassProperties, computeSupportPolygon, MassProperties, SupportPolygon } from './utils/massProperties';
+import { validateUrdf, ValidationIssue } from './utils/urdfValidator';
+import { AssetStatus, isFailedAsset, toMeshFailures } from './utils/assetStatus';
+import { getXacroArguments, XacroArgument } from './utils/xacroArgs';
+import { createHttpFileSource, createLocalFileSource, normalizePath, withEdits } from './utils/fileSource';
+import { expandXacro } from './utils/xacroResolver';
+import { convertMjcfToUrdf, isMjcfContent } from './utils/mjcfConverter';
+import { convertSdfToUrdf, isSdfFile } from './utils/sdfConverter';
+import { buildExportArchive, downloadBlob, exportUrdf } from './utils/urdfExport';
+import { exportRobotGltf, GltfExportOptions } from './utils/gltfExport';
+import { PackageMappings, detectPackageFolders, findPackageNames, listFolders, loadPackageMappings, resolvePackageUri, savePackageMappings } from './utils/packageMapping';
+import { isSupportedMeshFormat, loadMeshFile, MeshFetchError } from './utils/meshLoaders';
+import { applyLod, countVisualTriangles, removeLod, TriangleStats } from './utils/meshLod';
+import { diffUrdf, DiffElementType } from './utils/urdfDiff';
+import { NEW_VERSION_COLOR, OLD_VERSION_COLOR, tintRobot, untintRobot } from './utils/diffOverlay';
+import { applyPlacement, defaultPlacement, LOADED_ROBOT_ID, readJointValues, readOrigin, RobotPlacement, SceneRobot, setNamePrefix } from './utils/sceneRobots';
+import { buildRobot, describeUrdf, getRobotDescription, isScalarJoint, LoadMeshCallback } from './utils/urdfDescription';
+import { describeUrdfInWorker, expandXacroInWorker, supportsWorkers } from './utils/workerPool';
+import { clearMeshCache, forgetServedMeshes, isMeshCachePersistent, loadCachedMesh, meshCacheKey, MeshCacheSource, setMeshCachePersistent } from './utils/meshCache';
 
 interface LinkSelection {
   name: string | null;
@@ -26,12 +60,51 @@ interface JointSelection {
   position: { x: number; y: number; };
 }
 
+interface XacroEntry {
+  path: string;
+  content: string;
+  isLocal: boolean;
+}
+
+const BASE_URL = import.meta.env.BASE_URL.endsWith('/') ? import.meta.env.BASE_URL : import.meta.env.BASE_URL + '/';
+
+const COLLISION_MODES: CollisionMode[] = ['visual', 'collision', 'both'];
+
+// Shared translucent material for <collision> geometry, so it reads as an overlay on top of the visuals
+const collisionMaterial = new THREE.MeshPhongMaterial({
+  color: 0xff7043,
+  transparent: true,
+  opacity: 0.45,
+  depthWrite: false,
+  side: THREE.DoubleSide,
+});
+
+const applyCollisionMaterial = (obj: THREE.Object3D) => {
+  obj.traverse(c => {
+    if ((c as THREE.Mesh).isMesh) (c as THREE.Mesh).material = collisionMaterial;
+  });
+};
+
 function App() {
   const [robot, setRobot] = useState<URDFRobot | null>(null);
   const [urdfContent, setUrdfContent] = useState<string | null>(null);
   const [currentFilePath, setCurrentFilePath] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Mesh load results keyed by the URI written in the URDF
+  const [assets, setAssets] = useState<Record<string, AssetStatus>>({});
+  // Keep parsed STL/PLY geometry in IndexedDB between sessions
+  const [persistMeshes, setPersistMeshes] = useState(isMeshCachePersistent);
+  // Bumped to parse the same URDF again, e.g. after its assets moved
+  const [reloadCount, setReloadCount] = useState(0);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress>({ loaded: 0, total: 0, current: null });
+  // Bumped once a model and all of its meshes have loaded; geometry-based results recompute then
+  const [modelLoadCount, setModelLoadCount] = useState(0);
+  // Tells the callbacks of a superseded load to stay quiet
+  const loadGenerationRef = useRef(0);
+  // Cancel the model fetch/expansion and the mesh decoding in progress (see startModelLoad)
+  const modelLoadAbortRef = useRef<AbortController | null>(null);
+  const meshLoadAbortRef = useRef<AbortController | null>(null);
   const [isDragActive, setIsDragActive] = useState(false);
 
   // Display options state
@@ -39,13 +112,18 @@ function App() {
   const [showGrid, setShowGrid] = useState(true);
   const [showLinkAxes, setShowLinkAxes] = useState(false);
   const [showJointAxes, setShowJointAxes] = useState(false);
+  const [showInertia, setShowInertia] = useState(false);
   const [showShadows, setShowShadows] = useState(false);
+  const [showCom, setShowCom] = useState(false);
+  const [showSupportPolygon, setShowSupportPolygon] = useState(false);
   const [wireframe, setWireframe] = useState(false);
+  const [collisionMode, setCollisionMode] = useState<CollisionMode>('visual');
   const [showStructureTree, setShowStructureTree] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   
   const [isCtrlPressed, setIsCtrlPressed] = useState(false);
-  const [sampleFiles, setSampleFiles] = useState<string[]>([]);
+  const [samples, setSamples] = useState<SampleInfo[]>([]);
+  const sampleFiles = samples.map(s => s.path);
   
   // -- MEASUREMENT STATE --
   const [isMeasurementMode, setIsMeasurementMode] = useState(false);
@@ -53,6 +131,83 @@ function App() {
 
   // -- GLOBAL JOINT STATE --
   const [jointValues, setJointValues] = useState<Record<string, number>>({});
+  // Pose to carry over into the next robot when the same model is re-expanded
+  const preservedJointValuesRef = useRef<Record<string, number> | null>(null);
+
+  // -- XACRO ARGUMENTS --
+  const [xacroArgs, setXacroArgs] = useState<XacroArgument[]>([]);
+  const [xacroArgValues, setXacroArgValues] = useState<Record<string, string>>({});
+  // Entry xacro, kept so it can be re-expanded with new arguments
+  const xacroSourceRef = useRef<XacroEntry | null>(null);
+
+  // -- PACKAGE MAPPING --
+  const [packageMappings, setPackageMappings] = useState<PackageMappings>({});
+  const [detectedPackages, setDetectedPackages] = useState<PackageMappings>({});
+  const [showPackagesDialog, setShowPackagesDialog] = useState(false);
+  // Read by the URL modifier and the xacro file sources
+  const packageMappingsRef = useRef<PackageMappings>({});
+  // Mappings are stored per model: the sample URL or the entry path of the dropped folder
+  const modelKeyRef = useRef('');
+
+  // -- EXPORT --
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showGltfDialog, setShowGltfDialog] = useState(false);
+  // Resolves a mesh filename the way the current model's loader does, for bundling meshes
+  const meshUrlResolverRef = useRef<((uri: string) => string) | null>(null);
+
+  // -- LEVEL OF DETAIL --
+  const [simplifyMeshes, setSimplifyMeshes] = useState(false);
+  const [triangleBudget, setTriangleBudget] = useState(20000);
+  const [fullResolutionPicking, setFullResolutionPicking] = useState(true);
+  const [triangleStats, setTriangleStats] = useState<TriangleStats | null>(null);
+
+  // -- SCENE --
+  // Robots kept from earlier models; the opened model's robot (`robot`) is not among them
+  const [keptRobots, setKeptRobots] = useState<SceneRobot[]>([]);
+  // Joint positions of the kept robots, by robot id
+  const [keptJointValues, setKeptJointValues] = useState<Record<number, Record<string, number>>>({});
+  const [loadedPlacement, setLoadedPlacement] = useState<RobotPlacement>(defaultPlacement);
+  // Robot the joint controls, tree, popups and gizmo work on
+  const [activeRobotId, setActiveRobotId] = useState(LOADED_ROBOT_ID);
+  const [gizmoMode, setGizmoMode] = useState<GizmoMode>(null);
+  const nextRobotIdRef = useRef(LOADED_ROBOT_ID + 1);
+
+  // -- VERSION DIFF --
+  // Kept robot the opened model is compared against, as its old version
+  const [compareRobotId, setCompareRobotId] = useState<number | null>(null);
+
+  // -- ENTRY FILE --
+  // Shown when a dropped folder holds more than one model file
+  const [entryChoice, setEntryChoice] = useState<{ files: Map<string, File>; candidates: EntryCandidate[]; preselected: string } | null>(null);
+
+  // -- LIVE RELOAD --
+  // Folder whose files are polled for changes; `stale` once its changes can no longer be read
+  const [watchedFolder, setWatchedFolder] = useState<{ name: string; stale: boolean } | null>(null);
+  const stopWatchRef = useRef<(() => void) | null>(null);
+  // Top-level folder name of the watched files
+  const watchedRootRef = useRef<string | null>(null);
+  // Without directory handles, the next folder picked through the folder input gets watched
+  const watchNextPickRef = useRef(false);
+  // The next parse is a live reload: popups, selection and measurements stay
+  const keepViewOnLoadRef = useRef(false);
+  // Latest reload handler for the watcher, which outlives renders
+  const liveReloadRef = useRef<(files: Map<string, File>) => Promise<void>>(async () => {});
+
+  // -- SOURCE EDITOR --
+  const [showEditor, setShowEditor] = useState(false);
+  // Entry file first, then the files read while expanding it
+  const [sourceFiles, setSourceFiles] = useState<Map<string, string>>(new Map());
+  // Edited includes, served in place of the files until another model is opened
+  const sourceEditsRef = useRef<Map<string, string>>(new Map());
+  // Files read by the current expansion
+  const sourceReadsRef = useRef<Map<string, string>>(new Map());
+  const modelIsLocalRef = useRef(false);
+
+  // -- DEEP LINK --
+  const cameraControlRef = useRef<CameraControl | null>(null);
+  // Link named in the page URL, selected once the linked model has loaded
+  const pendingLinkRef = useRef<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   // -- Independent Selection States --
   const [linkSelection, setLinkSelection] = useState<LinkSelection>({
@@ -76,20 +231,125 @@ function App() {
   const localFilesRef = useRef<Map<string, File>>(new Map());
   // Store blob URLs to revoke them later
   const createdBlobUrls = useRef<string[]>([]);
+  // Files dropped onto entries of the Assets panel, keyed by mesh URI
+  const assetOverridesRef = useRef<Map<string, File>>(new Map());
 
   // Initialize joint values when robot loads
   useEffect(() => {
     if (robot) {
+        const preserved = preservedJointValuesRef.current;
+        preservedJointValuesRef.current = null;
+
+        // Values carried over from the previous load or a deep link only go to joints posed by one number
         const initialValues: Record<string, number> = {};
         Object.values(robot.joints).forEach(j => {
-            if (j.jointType !== 'fixed') {
+            if (isScalarJoint(j)) {
+                if (preserved && j.name in preserved) {
+                    robot.setJointValue(j.name, preserved[j.name]);
+                }
                 initialValues[j.name] = j.angle as number || 0;
             }
         });
         setJointValues(initialValues);
+        setActiveRobotId(LOADED_ROBOT_ID);
+
+        // Selections of a reloaded model carry over to the parts that still exist
+        setJointSelection(prev => {
+            if (!prev.joint) return prev;
+            const joint = robot.joints[prev.joint.name];
+            return joint ? { ...prev, joint } : { ...prev, joint: null, visible: false };
+        });
+        setLinkSelection(prev => (prev.name && !robot.links[prev.name] ? { ...prev, name: null, visible: false } : prev));
     }
   }, [robot]);
   
+  const activeKept = keptRobots.find(r => r.id === activeRobotId) ?? null;
+  const activeRobot = activeKept ? activeKept.robot : robot;
+  const activeJointValues = activeKept ? keptJointValues[activeKept.id] ?? {} : jointValues;
+  const sceneRobots = useMemo(() => [...keptRobots.map(r => r.robot), ...(robot ? [robot] : [])], [robot, keptRobots]);
+  const compareKept = robot ? keptRobots.find(r => r.id === compareRobotId) ?? null : null;
+  const compareRobot = compareKept?.robot ?? null;
+
+  // Both versions are parsed already; the diff works on their descriptions
+  const versionDiff = useMemo(
+      () => {
+          const before = compareRobot && getRobotDescription(compareRobot);
+          const after = robot && getRobotDescription(robot);
+          return before && after ? diffUrdf(before, after) : null;
+      },
+      [robot, compareRobot]
+  );
+
+  useEffect(() => {
+      if (robot) applyPlacement(robot, loadedPlacement);
+  }, [robot, loadedPlacement]);
+  // The old version being compared sits where the opened model is
+  useEffect(() => {
+      keptRobots.forEach(r => applyPlacement(r.robot, r.robot === compareRobot ? { visible: r.visible, origin: loadedPlacement.origin } : r));
+  }, [keptRobots, compareRobot, loadedPlacement]);
+
+  // Both versions drawn translucent in contrasting colors; redone once the opened model's meshes are in
+  useEffect(() => {
+      if (!robot || !compareRobot) return;
+      tintRobot(compareRobot, OLD_VERSION_COLOR);
+      tintRobot(robot, NEW_VERSION_COLOR);
+      return () => {
+          untintRobot(compareRobot);
+          untintRobot(robot);
+      };
+  }, [robot, compareRobot, modelLoadCount]);
+
+  // The old version follows the opened model's pose, joint by joint as matched by the diff. A joint
+  // whose type changed to floating or planar in the old version is left alone.
+  useEffect(() => {
+      if (!compareKept || !versionDiff) return;
+      const oldJoints = new Map(Object.values(compareKept.robot.joints).filter(isScalarJoint).map(j => [j.urdfName, j]));
+      Object.entries(jointValues).forEach(([name, value]) => {
+          oldJoints.get(versionDiff.jointNames.get(name) ?? '')?.setJointValue(value);
+      });
+      return () => {
+          compareKept.robot.setJointValues(keptJointValues[compareKept.id] ?? {});
+      };
+  }, [compareKept, versionDiff, jointValues, keptJointValues]);
+
+  // Mass properties of the active robot follow its pose and placement. Placement is applied by the effects
+  // above, after render, so these are computed in effects declared after them rather than during render.
+  const [massProperties, setMassProperties] = useState<MassProperties | null>(null);
+  const [supportPolygon, setSupportPolygon] = useState<SupportPolygon | null>(null);
+  useEffect(() => {
+      setMassProperties(activeRobot ? computeMassProperties(activeRobot) : null);
+  }, [activeRobot, jointValues, keptJointValues, loadedPlacement, keptRobots, versionDiff]);
+  useEffect(() => {
+      setSupportPolygon(activeRobot && (showCom || showSupportPolygon) ? computeSupportPolygon(activeRobot) : null);
+  }, [activeRobot, jointValues, keptJointValues, loadedPlacement, keptRobots, versionDiff, showCom, showSupportPolygon, modelLoadCount]);
+
+  // Meshes arrive after the robot is set, so levels are rebuilt once they have all loaded
+  useEffect(() => {
+      if (!robot) {
+          setTriangleStats(null);
+          return;
+      }
+      if (simplifyMeshes) {
+          setTriangleStats(applyLod(robot, triangleBudget, fullResolutionPicking));
+      } else {
+          removeLod(robot);
+          const total = countVisualTriangles(robot);
+          setTriangleStats({ before: total, after: total, simplifiedLinks: 0 });
+      }
+  }, [robot, modelLoadCount, simplifyMeshes, triangleBudget, fullResolutionPicking]);
+
+  // Validation report: static checks on the URDF text plus meshes that failed to load
+  const packageNames = useMemo(() => (urdfContent ? findPackageNames(urdfContent) : []), [urdfContent]);
+
+  const problems = useMemo(
+      () => urdfContent ? validateUrdf(urdfContent, toMeshFailures(Object.values(assets))) : [],
+      [urdfContent, assets]
+  );
+  const failedLinkNames = useMemo(
+      () => new Set(Object.values(assets).filter(isFailedAsset).flatMap(a => a.links)),
+      [assets]
+  );
+
   // Handles Link Selection & Updates (Called by Viewer on click AND in animate loop)
   const handleSelectionUpdate = useCallback((name: string | null, matrix: THREE.Matrix4 | null, parentMatrix: THREE.Matrix4 | null, visible: boolean = true) => {
       if (!name) {
@@ -125,13 +385,52 @@ function App() {
       });
   }, []);
 
+  // Selects a link (highlight only) or a joint coming from the tree or the problems list
+  const handleObjectSelect = useCallback((obj: THREE.Object3D) => {
+      if ((obj as any).isURDFLink) {
+          obj.updateWorldMatrix(true, false);
+          // Pass visible=false to highlight WITHOUT showing the InfoPopup
+          handleSelectionUpdate(obj.name, obj.matrixWorld, obj.parent ? obj.parent.matrixWorld : null, false);
+      } else if ((obj as any).isURDFJoint) {
+          handleJointSelect(obj as URDFJoint);
+      }
+  }, [handleSelectionUpdate, handleJointSelect]);
+
+  // Waits until the opened model is the active robot, which resets the selection
+  useEffect(() => {
+      const name = pendingLinkRef.current;
+      if (!robot || !name || activeRobot !== robot) return;
+      pendingLinkRef.current = null;
+      if (robot.links[name]) handleObjectSelect(robot.links[name]);
+  }, [robot, activeRobot, handleObjectSelect]);
+
+  // Problems and the source editor point into the opened model, which becomes the active robot first
+  const selectInLoadedRobot = useCallback((obj: THREE.Object3D) => {
+      if (activeRobotId === LOADED_ROBOT_ID) {
+          handleObjectSelect(obj);
+          return;
+      }
+      setActiveRobotId(LOADED_ROBOT_ID);
+      if ((obj as any).isURDFLink) pendingLinkRef.current = obj.name;
+      else handleObjectSelect(obj);
+  }, [activeRobotId, handleObjectSelect]);
+
+  const handleProblemSelect = useCallback((target: NonNullable<ValidationIssue['target']>) => {
+      if (!robot) return;
+      const obj = target.type === 'link' ? robot.links[target.name] : robot.joints[target.name];
+      if (obj) selectInLoadedRobot(obj);
+  }, [robot, selectInLoadedRobot]);
+
   // Global handler for joint changes (Syncs Controller, Popup, and Robot)
   const handleJointChange = useCallback((name: string, value: number) => {
-      if (robot) {
+      if (activeKept) {
+          activeKept.robot.setJointValue(name, value);
+          setKeptJointValues(prev => ({ ...prev, [activeKept.id]: { ...prev[activeKept.id], [name]: value } }));
+      } else if (robot) {
           robot.setJointValue(name, value);
           setJointValues(prev => ({ ...prev, [name]: value }));
       }
-  }, [robot]);
+  }, [robot, activeKept]);
 
   // Popup Drag Handlers
   const handleLinkPopupDrag = (x: number, y: number) => {
@@ -172,7 +471,7 @@ function App() {
             if (res.ok && res.headers.get('content-type')?.includes('json')) {
                 return res.json().then(files => {
                     console.log("Loaded static manifest", files);
-                    setSampleFiles(files);
+                    setSamples(parseManifest(files));
                 });
             } else {
                 throw new Error("No static manifest");
@@ -188,10 +487,11 @@ function App() {
           createdBlobUrls.current.forEach(url => URL.revokeObjectURL(url));
           createdBlobUrls.current = [];
       };
-  }, [urdfContent]);
+  }, [urdfContent, reloadCount]);
 
   // Effect to parse the robot model whenever the content changes
   useEffect(() => {
+    const generation = ++loadGenerationRef.current;
     if (!urdfContent) {
       setRobot(null);
       setError(null);
@@ -201,41 +501,72 @@ function App() {
     setLoading(true);
     setError(null);
     setRobot(null);
-    // Close popups when loading new model
-    setLinkSelection(prev => ({ ...prev, visible: false }));
-    setJointSelection(prev => ({ ...prev, visible: false }));
-    setMeasurementPoints([]);
-    setIsMeasurementMode(false);
+    if (keepViewOnLoadRef.current) {
+        keepViewOnLoadRef.current = false;
+    } else {
+        // Close popups when loading new model
+        setLinkSelection(prev => ({ ...prev, visible: false }));
+        setJointSelection(prev => ({ ...prev, visible: false }));
+        setMeasurementPoints([]);
+        setIsMeasurementMode(false);
+    }
+    setAssets({});
+    setLoadProgress({ loaded: 0, total: 0, current: null });
+
+    // Superseded by the next parse, or by startModelLoad when another model is opened
+    const meshLoad = new AbortController();
+    meshLoadAbortRef.current = meshLoad;
 
     // Defer the parsing to allow the UI to update
-    setTimeout(() => {
+    const timer = setTimeout(() => {
       const manager = new THREE.LoadingManager();
       
       // Determine the directory of the current model file
       const pathParts = currentFilePath.split('/');
       const modelDir = pathParts.slice(0, -1).join('/');
       const modelPackageRoot = pathParts.length > 1 ? pathParts[0] : '';
-      const baseUrl = import.meta.env.BASE_URL.endsWith('/') ? import.meta.env.BASE_URL : import.meta.env.BASE_URL + '/';
+      const baseUrl = BASE_URL;
+
+      // Local files behind the blob URLs handed out below, for the asset report
+      const blobFiles = new Map<string, { path: string; file: File }>();
+      const toBlobUrl = (file: File, path: string) => {
+          const blobUrl = URL.createObjectURL(file);
+          createdBlobUrls.current.push(blobUrl);
+          blobFiles.set(blobUrl, { path, file });
+          return blobUrl;
+      };
 
       // Setup URL Modifier to handle package:// and URDF-relative paths
       manager.setURLModifier((url) => {
-          // 0. Check Local Files (Drag & Drop)
+          // 0. Replacement files dropped onto the Assets panel
+          const override = assetOverridesRef.current.get(url);
+          if (override) return toBlobUrl(override, override.name);
+
+          // 1. Explicit package mappings (Packages dialog or package.xml)
+          const mapped = url.startsWith('package://') ? resolvePackageUri(url, packageMappingsRef.current) : null;
+          if (mapped?.type === 'url') return mapped.target;
+          if (mapped?.type === 'folder') {
+              const path = normalizePath(mapped.target);
+              const file = localFilesRef.current.get(path);
+              if (file) return toBlobUrl(file, path);
+          }
+
+          // 2. Check Local Files (Drag & Drop)
           if (localFilesRef.current.size > 0) {
-              const file = findFileInMap(url, localFilesRef.current);
-              if (file) {
-                  const blobUrl = URL.createObjectURL(file);
-                  createdBlobUrls.current.push(blobUrl);
-                  return blobUrl;
-              }
+              const path = findPathInMap(url, localFilesRef.current);
+              if (path !== undefined) return toBlobUrl(localFilesRef.current.get(path)!, path);
           }
 
-          // 1. Handle ROS package:// protocol
+          // 3. Handle ROS package:// protocol
           if (url.startsWith('package://')) {
                return baseUrl + url.replace('package://', '');
           }
           
-          // 2. Handle relative paths
+          // 4. Handle relative paths
           if (!url.startsWith('/') && !url.startsWith('http') && !url.startsWith('blob:')) {
+              // Models opened from a remote URL keep their meshes next to them
+              if (/^https?:\/\//.test(modelDir)) return normalizePath(`${modelDir}/${url}`);
+
               // Heuristic: If the URDF is in a 'urdf' folder but meshes are one level up
               // and the path doesn't already have '../'
               if (modelDir.endsWith('/urdf') && !url.startsWith('..')) {
@@ -250,87 +581,152 @@ function App() {
           return url;
       });
 
-      const loader = new URDFLoader(manager);
-      
-      // Explicitly define how to load meshes with safety checks
-      const stlLoader = new STLLoader(manager);
-      const daeLoader = new ColladaLoader(manager);
-      const objLoader = new OBJLoader(manager);
-
-      (loader as any).meshLoader = (path: string, ext: string, done: (mesh: THREE.Object3D) => void) => {
-          // Standard fetching for HTTP/Blob URLs
-          // We can't easily use fetch HEAD on blob URLs or mixed content easily without potential CORS or method issues,
-          // but Three.js loaders handle basic fetching. 
-          // However, for our backend '404 HTML' protection, we only check http paths.
-          
-          const isRemote = path.startsWith('http') || path.startsWith('/');
-
-          const loadMesh = () => {
-              if (ext.toLowerCase() === 'stl') {
-                  stlLoader.load(path, geom => {
-                      const mesh = new THREE.Mesh(geom, new THREE.MeshStandardMaterial());
-                      done(mesh);
-                  }, undefined, err => {
-                      console.error("STL Load Error:", err);
-                      done(new THREE.Group());
-                  });
-              } else if (ext.toLowerCase() === 'dae') {
-                  daeLoader.load(path, collada => {
-                      done(collada.scene);
-                  }, undefined, err => {
-                      console.error("DAE Load Error:", err);
-                      done(new THREE.Group());
-                  });
-              } else if (ext.toLowerCase() === 'obj') {
-                  objLoader.load(path, obj => {
-                      done(obj);
-                  }, undefined, err => {
-                      console.error("OBJ Load Error:", err);
-                      done(new THREE.Group());
-                  });
-              } else {
-                  done(new THREE.Group());
+      meshUrlResolverRef.current = (uri) => manager.resolveURL(uri);
+
+      // Meshes started and not done yet, latest last; the loading indicator names the latest
+      const meshesInFlight: string[] = [];
+      const showCurrentMesh = () => {
+          const current = meshesInFlight[meshesInFlight.length - 1] ?? null;
+          if (generation === loadGenerationRef.current) setLoadProgress(prev => ({ ...prev, current }));
+      };
+
+      // Mesh paths keep package:// so the URL modifier above can resolve them
+      const loadMeshCb: LoadMeshCallback = (path, loadingManager, onDone) => {
+          // One item per mesh, ended in done(), so the manager's onLoad also waits for cache lookups and the parse
+          loadingManager.itemStart(path);
+          meshesInFlight.push(path);
+          showCurrentMesh();
+          const url = loadingManager.resolveURL(path);
+          const ext = path.split('?')[0].split('.').pop() || '';
+          const local = blobFiles.get(url);
+          const startTime = performance.now();
+          let bytes: number | null = local ? local.file.size : null;
+
+          // `path` is the filename as written in the URDF, which lets the validator point at the <mesh> line
+          const updateAsset = (update: Partial<AssetStatus>) => {
+              setAssets(prev => {
+                  const current: AssetStatus = prev[path] ?? {
+                      uri: path,
+                      resolvedUrl: local ? `local: ${local.path}` : url,
+                      state: 'loading',
+                      bytes: null,
+                      loadTimeMs: null,
+                      links: [],
+                      replaced: assetOverridesRef.current.has(path),
+                  };
+                  return { ...prev, [path]: { ...current, ...update } };
+              });
+          };
+          updateAsset({});
+
+          const onProgress = (e: ProgressEvent) => {
+              if (e.loaded > 0) bytes = e.loaded;
+          };
+
+          // Visuals and collisions share this loader; buildRobot parents the mesh inside done(),
+          // so collision meshes can be restyled right after they are attached.
+          const done = (mesh: THREE.Object3D, state: AssetStatus['state'] = 'loaded', reason?: string, cache?: MeshCacheSource | null) => {
+              onDone(mesh);
+              if (mesh.parent && (mesh.parent as any).isURDFCollider) {
+                  applyCollisionMaterial(mesh);
               }
+              const link = mesh.parent?.parent;
+              setAssets(prev => {
+                  const current = prev[path];
+                  if (!current) return prev;
+                  const links = link && (link as any).isURDFLink && !current.links.includes(link.name)
+                      ? [...current.links, link.name]
+                      : current.links;
+                  return { ...prev, [path]: { ...current, state, reason, bytes, loadTimeMs: performance.now() - startTime, links, cache: cache ?? undefined } };
+              });
+              meshesInFlight.splice(meshesInFlight.indexOf(path), 1);
+              showCurrentMesh();
+              loadingManager.itemEnd(path);
           };
 
-          if (isRemote) {
-               fetch(path, { method: 'HEAD' }).then(res => {
-                  if (!res.ok) {
-                      console.error(`Mesh file not found (404/500): ${path}`);
-                      done(new THREE.Group());
-                      return;
-                  }
-                  loadMesh();
-               }).catch(e => {
-                   console.error("Network error checking mesh:", e);
-                   done(new THREE.Group());
-               });
-          } else {
-              // Blob URL or other, just load
-              loadMesh();
+          const fail = (state: AssetStatus['state'], reason: string) => {
+              loadingManager.itemError(path);
+              done(new THREE.Group(), state, reason);
+          };
+
+          if (!isSupportedMeshFormat(ext)) {
+              fail('unsupported', `unsupported format ".${ext}"`);
+              return;
           }
-      };
 
-      (loader as any).loadCollision = false;
+          // Repeated and previously opened meshes come from the cache (see utils/meshCache.ts)
+          meshCacheKey(url, ext, local?.file)
+              .then(key => loadCachedMesh(key, ext, async () => {
+                  const object = await loadMeshFile(ext, url, path, loadingManager, onProgress, meshLoad.signal);
+                  return { object, bytes };
+              }))
+              .then(result => {
+                  if (meshLoad.signal.aborted) return;
+                  bytes = result.bytes;
+                  done(result.object, 'loaded', undefined, result.source);
+              }, err => {
+                  if (meshLoad.signal.aborted) return;
+                  if (err instanceof MeshFetchError && err.status !== null) {
+                      console.error(`Mesh file not found (${err.status}): ${url}`);
+                      fail('not-found', `HTTP ${err.status}`);
+                  } else if (err instanceof MeshFetchError) {
+                      console.error("Network error loading mesh:", err);
+                      fail('network-error', 'network error');
+                  } else {
+                      console.error(`${ext.toUpperCase()} Load Error:`, err);
+                      fail('parse-error', `${ext.toUpperCase()} parse error`);
+                  }
+              });
+      };
 
-      manager.onLoad = () => setLoading(false);
+      let loadedRobot: URDFRobot | null = null;
+      let items = 0;
+      let failedItems = 0;
+      // Only the counts: the url passed here is the item that just finished
+      manager.onProgress = (_url, loaded, total) => {
+        items = total;
+        if (generation === loadGenerationRef.current) setLoadProgress(prev => ({ ...prev, loaded, total }));
+      };
+      manager.onLoad = () => {
+        if (generation !== loadGenerationRef.current || !loadedRobot) return;
+        setLoading(false);
+        setModelLoadCount(c => c + 1);
+        emitModelLoaded({ path: currentFilePath, robotName: loadedRobot.robotName, items, failedItems });
+      };
       manager.onError = (url) => {
+        failedItems++;
         console.error(`Failed to load resource: ${url}`);
       };
 
-      try {
-        const loadedRobot = loader.parse(urdfContent);
+      // The model file is an item too: onLoad cannot fire while the robot is still handing out meshes,
+      // and still fires for a model without any.
+      // The text is parsed on the worker pool; only the three.js objects are created here.
+      manager.itemStart(currentFilePath);
+      const description = supportsWorkers()
+        ? describeUrdfInWorker(urdfContent, meshLoad.signal)
+        : Promise.resolve(urdfContent).then(describeUrdf);
+      description.then(described => {
+        if (meshLoad.signal.aborted) return;
+        loadedRobot = buildRobot(described, manager, loadMeshCb);
+        // Primitive collision shapes are created synchronously while building
+        loadedRobot.traverse(c => {
+            if ((c as any).isURDFCollider) applyCollisionMaterial(c);
+        });
         setRobot(loadedRobot);
-      } catch (err) {
+        manager.itemEnd(currentFilePath);
+      }).catch(err => {
+        if (meshLoad.signal.aborted) return;
         console.error('Error parsing URDF:', err);
         setError(`Failed to parse URDF: ${err instanceof Error ? err.message : String(err)}`);
         setLoading(false);
-      }
-
-      setLoading(false);
+      });
     }, 10);
 
-  }, [urdfContent]); // Removed isStaticMode dependency
+    return () => {
+      clearTimeout(timer);
+      meshLoad.abort();
+    };
+  }, [urdfContent, reloadCount]); // Removed isStaticMode dependency
 
 
   // Keyboard shortcuts effect
@@ -346,13 +742,15 @@ function App() {
           setIsCtrlPressed(true);
       }
 
-      if (document.activeElement?.tagName === 'INPUT') return;
+      if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
       switch (e.key.toLowerCase()) {
         case 'w': setShowWorldAxes(v => !v); break;
         case 'g': setShowGrid(v => !v); break;
         case 'l': setShowLinkAxes(v => !v); break;
         case 'j': setShowJointAxes(v => !v); break;
+        case 'i': setShowInertia(v => !v); break;
         case 'f': setWireframe(v => !v); break;
+        case 'c': setCollisionMode(m => COLLISION_MODES[(COLLISION_MODES.indexOf(m) + 1) % COLLISION_MODES.length]); break;
         case 't': setShowStructureTree(v => !v); break;
         case 'r': 
             setIsMeasurementMode(v => !v); 
@@ -391,167 +789,453 @@ function App() {
     };
   }, []);
 
-  const resolveUrlPath = (base: string, relative: string) => {
-      if (relative.startsWith('http') || relative.startsWith('/')) return relative;
-      const stack = base.split('/');
-      stack.pop(); // Remove filename
-      const parts = relative.split('/');
-      for (const part of parts) {
-          if (part === '.') continue;
-          if (part === '..') stack.pop();
-          else stack.push(part);
-      }
-      return stack.join('/');
+  // Included files come from the dropped folder or, for samples, from the server
+  const createModelSource = (isLocal: boolean) => withEdits(
+      isLocal
+          ? createLocalFileSource(localFilesRef.current, packageMappingsRef.current)
+          : createHttpFileSource(BASE_URL, packageMappingsRef.current),
+      sourceEditsRef.current,
+      sourceReadsRef.current,
+  );
+
+  // Expanded on the worker pool, which reads the includes itself; the files it read come back for the source editor
+  const expandXacroEntry = async ({ path, content, isLocal }: XacroEntry, args: Record<string, string>, signal?: AbortSignal): Promise<string> => {
+      if (!supportsWorkers()) return expandXacro(path, content, createModelSource(isLocal), args);
+      const { urdf, reads } = await expandXacroInWorker({
+          path,
+          content,
+          args,
+          files: isLocal ? localFilesRef.current : null,
+          baseUrl: BASE_URL,
+          pageUrl: window.location.href,
+          packages: packageMappingsRef.current,
+          edits: sourceEditsRef.current,
+      }, signal);
+      reads.forEach((text, readPath) => sourceReadsRef.current.set(readPath, text));
+      return urdf;
   };
 
-  const fetchAndFlattenXacro = async (url: string): Promise<string> => {
-      console.log(`[Xacro] Fetching: ${url}`);
-      const response = await fetch(url);
-      if (!response.ok) throw new Error(`Failed to fetch ${url}`);
-      const content = await response.text();
-      
-      // Handle spaces around =
-      const includeRegex = /<xacro:include\s+filename\s*=\s*['"]([^'"]+)['"]\s*\/?>/g;
-      let match;
-      let newContent = content;
-      const matches: { full: string, path: string, index: number }[] = [];
-      
-      while ((match = includeRegex.exec(content)) !== null) {
-          matches.push({ full: match[0], path: match[1], index: match.index });
-      }
+  // Stored mappings win over the ones found in package.xml files
+  const initPackageMappings = async (modelKey: string, isLocal: boolean) => {
+      const detected = isLocal ? await detectPackageFolders(localFilesRef.current) : {};
+      const mappings = { ...detected, ...loadPackageMappings(modelKey) };
+      modelKeyRef.current = modelKey;
+      packageMappingsRef.current = mappings;
+      setDetectedPackages(detected);
+      setPackageMappings(mappings);
+  };
 
-      const baseUrl = import.meta.env.BASE_URL.endsWith('/') ? import.meta.env.BASE_URL : import.meta.env.BASE_URL + '/';
+  // `filename` is the entry path: a key of the local file map, or the sample URL.
+  // A live reload keeps the xacro arguments, replaced meshes, pose and view, and parses the model
+  // again even if the URDF text did not change (a mesh may have).
+  // Cancels the model load in progress (fetch, include expansion and mesh decoding) before another one starts
+  const startModelLoad = () => {
+    modelLoadAbortRef.current?.abort();
+    meshLoadAbortRef.current?.abort();
+    modelLoadAbortRef.current = new AbortController();
+    return modelLoadAbortRef.current.signal;
+  };
 
-      for (let i = matches.length - 1; i >= 0; i--) {
-          const { full, path: includePath } = matches[i];
-          let targetUrl = '';
+  const processAndSetContent = async (
+    filename: string, content: string, isLocal = false, liveReload = false, signal: AbortSignal = startModelLoad(),
+  ) => {
+    if (!liveReload) {
+      assetOverridesRef.current.clear();
+      sourceEditsRef.current.clear();
+    }
+    sourceReadsRef.current = new Map();
+    modelIsLocalRef.current = isLocal;
+    await initPackageMappings(filename, isLocal);
+    // A model opened in the meantime wins; results and errors of this one are dropped
+    if (signal.aborted) return;
+    const showUrdf = (urdf: string) => {
+      if (signal.aborted) return;
+      setSourceFiles(new Map([[filename, content], ...sourceReadsRef.current]));
+      if (liveReload) {
+        preservedJointValuesRef.current = jointValues;
+        keepViewOnLoadRef.current = true;
+        setReloadCount(c => c + 1);
+      }
+      setUrdfContent(urdf);
+    };
+    if (filename.toLowerCase().endsWith('.xacro')) {
+      setLoading(true);
+      const argValues = liveReload ? xacroArgValues : {};
+      setXacroArgs(getXacroArguments(content));
+      setXacroArgValues(argValues);
+      try {
+        const entry: XacroEntry = { path: filename, content, isLocal };
+        xacroSourceRef.current = entry;
+        
+        const urdfString = await expandXacroEntry(entry, argValues, signal);
+        showUrdf(urdfString);
+      } catch (err) {
+        if (signal.aborted) return;
+        console.error("Xacro parsing error:", err);
+        setError(`Xacro Error: ${err instanceof Error ? err.message : String(err)}`);
+        setLoading(false);
+      }
+    } else if (filename.toLowerCase().endsWith('.xml') && isMjcfContent(content)) {
+      setLoading(true);
+      setXacroArgs([]);
+      xacroSourceRef.current = null;
+      try {
+        showUrdf(await convertMjcfToUrdf(filename, content, createModelSource(isLocal)));
+      } catch (err) {
+        if (signal.aborted) return;
+        console.error("MJCF import error:", err);
+        setError(`MJCF Error: ${err instanceof Error ? err.message : String(err)}`);
+        setLoading(false);
+      }
+    } else if (isSdfFile(filename)) {
+      setLoading(true);
+      setXacroArgs([]);
+      xacroSourceRef.current = null;
+      try {
+        showUrdf(await convertSdfToUrdf(filename, content, createModelSource(isLocal)));
+      } catch (err) {
+        if (signal.aborted) return;
+        console.error("SDF import error:", err);
+        setError(`SDF Error: ${err instanceof Error ? err.message : String(err)}`);
+        setLoading(false);
+      }
+    } else {
+      setXacroArgs([]);
+      xacroSourceRef.current = null;
+      showUrdf(content);
+    }
+  };
 
-          // Handle $(find pkg)
-          let cleanPath = includePath.replace(/\$\([a-z_]+\s+([\w_]+)\)/g, 'package://$1'); // $(find pkg) -> package://pkg
-          
-          // Remove leading slash if present to avoid double slash with baseUrl
-          if (cleanPath.startsWith('/')) cleanPath = cleanPath.substring(1);
+  // Re-expands the current xacro with new arguments, keeping the camera and the pose
+  const handleXacroArgsApply = async (values: Record<string, string>) => {
+      const source = xacroSourceRef.current;
+      if (!source) return;
 
-          if (cleanPath.startsWith('package://')) {
-               const pkgPath = cleanPath.replace('package://', '');
-               targetUrl = baseUrl + pkgPath;
-          } else {
-               targetUrl = resolveUrlPath(url, cleanPath);
+      setXacroArgValues(values);
+      setLoading(true);
+      setError(null);
+      try {
+          const urdfString = await expandXacroEntry(source, values);
+          if (urdfString === urdfContent) {
+              setLoading(false);
+              return;
           }
-          
-          // Fix double slashes just in case (except http://)
-          targetUrl = targetUrl.replace(/([^:])\/\//g, '$1/');
+          preservedJointValuesRef.current = jointValues;
+          setUrdfContent(urdfString);
+      } catch (err) {
+          console.error("Xacro parsing error:", err);
+          setError(`Xacro Error: ${err instanceof Error ? err.message : String(err)}`);
+          setLoading(false);
+      }
+  };
+
+  // Reloads the model so meshes (and xacro includes) are looked up with the new mappings
+  const handlePackagesApply = async (mappings: PackageMappings) => {
+      setShowPackagesDialog(false);
+      savePackageMappings(modelKeyRef.current, mappings);
+      packageMappingsRef.current = mappings;
+      preservedJointValuesRef.current = jointValues;
+      setError(null);
 
+      const source = xacroSourceRef.current;
+      if (source) {
+          setLoading(true);
           try {
-              let includedContent = await fetchAndFlattenXacro(targetUrl);
-               // Clean content
-              includedContent = includedContent.replace(/<\?xml.*?\?>/g, '');
-              // Remove <robot> tag and anything following the closing tag (like comments)
-              includedContent = includedContent.replace(/<robot\b[^>]*>/, '');
-              includedContent = includedContent.replace(/<\/robot>[\s\S]*$/, '');
-              
-              const before = newContent.substring(0, matches[i].index);
-              const after = newContent.substring(matches[i].index + full.length);
-              newContent = before + includedContent + after;
-          } catch (e) {
-              console.warn(`Failed to include ${targetUrl}`, e);
+              setUrdfContent(await expandXacroEntry(source, xacroArgValues));
+          } catch (err) {
+              console.error("Xacro parsing error:", err);
+              setError(`Xacro Error: ${err instanceof Error ? err.message : String(err)}`);
+              setLoading(false);
           }
       }
-      return newContent;
+      setPackageMappings(mappings);
+      setReloadCount(c => c + 1);
   };
 
-  const flattenXacro = async (content: string, filesMap: Map<string, File>): Promise<string> => {
-      const includeRegex = /<xacro:include\s+filename=['"]([^'"]+)['"]\s*\/?>/g;
-      let match;
-      let newContent = content;
-      
-      // We need to handle matches one by one. 
-      // Since replacing changes indices, we can't iterate easily.
-      // Better: find all matches, resolve them, then replace.
-      
-      // Actually, standard while loop with replacement works if we restart or are careful.
-      // But simpler: split by regex? No.
-      
-      // Let's use a replaceAsync approach
-      const matches: { full: string, path: string, index: number }[] = [];
-      while ((match = includeRegex.exec(content)) !== null) {
-          matches.push({ full: match[0], path: match[1], index: match.index });
+  // Parses the model again with the current pose, giving failed meshes another attempt and fetching
+  // served meshes again in case they changed
+  const reloadModel = () => {
+      forgetServedMeshes();
+      preservedJointValuesRef.current = jointValues;
+      setReloadCount(c => c + 1);
+  };
+
+  const handleAssetReplace = (uri: string, file: File) => {
+      assetOverridesRef.current.set(uri, file);
+      reloadModel();
+  };
+
+  const handlePersistMeshesChange = (persist: boolean) => {
+      setMeshCachePersistent(persist);
+      setPersistMeshes(persist);
+  };
+
+  // Returns the meshes that could not be fetched into the zip
+  const handleExport = async ({ meshUriMode, packageName, bundleMeshes }: ExportSettings): Promise<string[]> => {
+      if (!urdfContent) return [];
+      const baseName = (robot?.robotName || 'robot').replace(/[^\w.-]+/g, '_');
+      const { urdf, meshes } = exportUrdf(urdfContent, { meshUriMode, packageName });
+
+      if (!bundleMeshes) {
+          downloadBlob(new Blob([urdf], { type: 'application/xml' }), `${baseName}.urdf`);
+          return [];
       }
-      
-      // Process from last to first to avoid index shifting
-      for (let i = matches.length - 1; i >= 0; i--) {
-          const { full, path } = matches[i];
-          
-          // 1. Resolve $(find pkg)
-          // Simple replacement: $(find pkg) -> pkg
-          let resolvedPath = path.replace(/\$\(find\s+([\w_]+)\)/g, '$1');
-          
-          // 2. Find file
-          const file = findFileInMap(resolvedPath, filesMap);
-          
-          if (file) {
-              let fileText = await new Promise<string>((resolve) => {
-                  const reader = new FileReader();
-                  reader.onload = () => resolve(reader.result as string);
-                  reader.readAsText(file);
-              });
-              
-              // Clean fileText: remove XML declaration and root <robot> tags
-              fileText = fileText.replace(/<\?xml.*?\?>/g, '');
-              // Match <robot ...> but be careful not to match just any <robot
-              // We'll use a slightly safer regex to strip the first <robot> and last </robot>
-              fileText = fileText.replace(/<robot\b[^>]*>/, '');
-              fileText = fileText.replace(/<\/robot>\s*$/, '');
-              
-              // 3. Recurse
-              const flattenedInclude = await flattenXacro(fileText, filesMap);
-              
-              // 4. Replace
-              const before = newContent.substring(0, matches[i].index);
-              const after = newContent.substring(matches[i].index + full.length);
-              newContent = before + flattenedInclude + after;
+
+      const files: { path: string; data: Uint8Array }[] = [];
+      const failed: string[] = [];
+      for (const mesh of meshes) {
+          try {
+              const url = meshUrlResolverRef.current ? meshUrlResolverRef.current(mesh.uri) : mesh.uri;
+              const response = await fetch(url);
+              if (!response.ok) throw new Error(`HTTP ${response.status}`);
+              files.push({ path: mesh.archivePath, data: new Uint8Array(await response.arrayBuffer()) });
+          } catch (err) {
+              console.warn(`Export: could not fetch ${mesh.uri}:`, err);
+              failed.push(mesh.uri);
           }
       }
-      
-      return newContent;
+      downloadBlob(buildExportArchive(`${baseName}.urdf`, urdf, files), `${baseName}.zip`);
+      return failed;
   };
 
-  const processAndSetContent = async (filename: string, content: string, _isLocal = false) => {
-    if (filename.toLowerCase().endsWith('.xacro')) {
+  // The robot is exported as posed by the current jointValues, with its meshes at full resolution and in their own colors
+  const handleGltfExport = async (options: GltfExportOptions) => {
+      if (!robot) return;
+      removeLod(robot);
+      untintRobot(robot);
+      let blob: Blob;
+      try {
+          blob = await exportRobotGltf(robot, options);
+      } finally {
+          if (simplifyMeshes) applyLod(robot, triangleBudget, fullResolutionPicking);
+          if (compareRobot) tintRobot(robot, NEW_VERSION_COLOR);
+      }
+      const baseName = (robot.robotName || 'robot').replace(/[^\w.-]+/g, '_');
+      downloadBlob(blob, `${baseName}.${options.binary ? 'glb' : 'gltf'}`);
+  };
+
+  const openGltfDialog = () => {
+      // The selection highlight swaps link materials; drop it so the original ones are exported
+      setLinkSelection(prev => ({ ...prev, name: null, visible: false }));
+      setShowGltfDialog(true);
+  };
+
+  const loadEntryFile = (filesMap: Map<string, File>, entryPath: string) => {
+      localFilesRef.current = filesMap;
       setLoading(true);
+
+      const entryFile = filesMap.get(entryPath)!;
+      const reader = new FileReader();
+      reader.onload = (ev) => {
+          const content = ev.target?.result as string;
+          setCurrentFilePath(entryFile.name);
+          processAndSetContent(entryPath, content, true);
+      };
+      reader.readAsText(entryFile);
+  };
+
+  // Opens a dropped or picked folder (or unpacked archive), asking for the entry file if there are several
+  const openLocalFiles = async (filesMap: Map<string, File>) => {
+      const candidates = await describeEntryCandidates(filesMap);
+      if (candidates.length === 0) {
+          throw new Error("No .urdf, .xacro, .sdf or MJCF .xml file found.");
+      }
+      if (candidates.length === 1) {
+          loadEntryFile(filesMap, candidates[0].path);
+          return;
+      }
+      const preselected = preselectEntry(candidates, filesMap, loadEntryChoice(folderKey(filesMap)));
+      setEntryChoice({ files: filesMap, candidates, preselected });
+      setLoading(false);
+  };
+
+  const handleEntryChosen = (path: string) => {
+      if (!entryChoice) return;
+      saveEntryChoice(folderKey(entryChoice.files), path);
+      loadEntryFile(entryChoice.files, path);
+      setEntryChoice(null);
+  };
+
+  const stopWatching = () => {
+      stopWatchRef.current?.();
+      stopWatchRef.current = null;
+      watchedRootRef.current = null;
+      setWatchedFolder(null);
+  };
+
+  const startWatching = (name: string, read: () => Promise<Map<string, File>>, signature: typeof handleSignature) => {
+      stopWatching();
+      watchedRootRef.current = name;
+      setWatchedFolder({ name, stale: false });
+      stopWatchRef.current = watchFiles(read, signature, files => liveReloadRef.current(files), err => {
+          console.warn('Live reload stopped:', err);
+          setWatchedFolder({ name, stale: true });
+      });
+  };
+
+  // Re-runs the pipeline on the new contents of the watched folder
+  const reloadFromDisk = async (files: Map<string, File>) => {
+      const entryPath = modelKeyRef.current;
+      // The entry file of the watched folder may not be chosen yet
+      if (!entryPath.startsWith(`${watchedRootRef.current}/`)) return;
+      const entry = files.get(entryPath);
+      if (!entry) {
+          setError(`Live reload: ${entryPath} is no longer in the folder.`);
+          return;
+      }
+      localFilesRef.current = files;
+      // The files on disk win over edits made in the source editor
+      sourceEditsRef.current.clear();
+      setError(null);
+      await processAndSetContent(entryPath, await entry.text(), true, true);
+  };
+  liveReloadRef.current = reloadFromDisk;
+
+  useEffect(() => () => stopWatchRef.current?.(), []);
+
+  const handleWatchFolder = async () => {
+      if (!supportsDirectoryHandles()) {
+          watchNextPickRef.current = true;
+          document.getElementById('folder-upload')?.click();
+          return;
+      }
+
+      let handle: FileSystemDirectoryHandle;
       try {
-        let urdfString = "";
-        
-        // If it's a local file (Drag & Drop) or a pre-flattened static file
-        // We use the local parser logic. 
-        // Note: For Drag & Drop, 'localFilesRef' has files. 
-        // For Static Samples, 'localFilesRef' is empty, but 'content' is already flattened by fetchAndFlattenXacro.
-        // So flattenXacro(content, emptyMap) -> returns content unchanged.
-        
-        const flattenedContent = await flattenXacro(content, localFilesRef.current);
-        
-        const parser = new XacroParser();
-        (parser as any).rospack = { find: (pkg: string) => `package://${pkg}` };
-        const xml = await parser.parse(flattenedContent);
-        
-        const serializer = new XMLSerializer();
-        urdfString = serializer.serializeToString(xml);
-        
-        console.log("[App] Generated URDF (preview):", urdfString.slice(0, 500));
-        setUrdfContent(urdfString);
+          handle = await pickDirectory();
+      } catch {
+          return; // Picker cancelled
+      }
+      setLoading(true);
+      setError(null);
+      try {
+          const files = await readDirectoryHandle(handle);
+          if (handle.name === watchedRootRef.current && files.has(modelKeyRef.current)) {
+              // Same folder again (e.g. after losing access): reload it in place
+              await reloadFromDisk(files);
+          } else {
+              stopWatching();
+              await openLocalFiles(files);
+          }
+          startWatching(handle.name, () => readDirectoryHandle(handle), handleSignature);
       } catch (err) {
-        console.error("Xacro parsing error:", err);
-        setError(`Xacro Error: ${err instanceof Error ? err.message : String(err)}`);
-        setLoading(false);
+          console.error("Watch error:", err);
+          setError(err instanceof Error ? err.message : "Failed to open folder");
+          setLoading(false);
       }
-    } else {
-      setUrdfContent(content);
-    }
   };
 
-  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  // Edits from the source editor re-run the pipeline like a live reload
+  const handleSourceEdit = (path: string, content: string) => {
+      const entryPath = modelKeyRef.current;
+      if (path !== entryPath) sourceEditsRef.current.set(path, content);
+      const entryContent = path === entryPath ? content : sourceFiles.get(entryPath);
+      if (entryContent === undefined) return;
+      setError(null);
+      processAndSetContent(entryPath, entryContent, modelIsLocalRef.current, true);
+  };
+
+  const handleJointCursor = (name: string) => {
+      const joint = robot?.joints[name];
+      if (joint) selectInLoadedRobot(joint);
+  };
+
+  // -- Scene --
+
+  const clearSelection = () => {
+      setLinkSelection(prev => ({ ...prev, name: null, visible: false }));
+      setJointSelection(prev => ({ ...prev, joint: null, visible: false }));
+  };
+
+  const handleActivateRobot = (id: number) => {
+      if (id === activeRobotId) return;
+      setActiveRobotId(id);
+      clearSelection();
+  };
+
+  const handlePlacementChange = (id: number, placement: RobotPlacement) => {
+      if (id === LOADED_ROBOT_ID) setLoadedPlacement(placement);
+      else setKeptRobots(prev => prev.map(r => (r.id === id ? { ...r, ...placement } : r)));
+  };
+
+  // The gizmo only ever moves the active robot
+  const handleRobotMoved = (moved: URDFRobot) => {
+      const placement = activeKept ?? loadedPlacement;
+      handlePlacementChange(activeRobotId, { visible: placement.visible, origin: readOrigin(moved) });
+  };
+
+  const handlePrefixChange = (id: number, prefix: string) => {
+      const kept = keptRobots.find(r => r.id === id);
+      if (!kept || kept.prefix === prefix) return;
+      setNamePrefix(kept.robot, prefix);
+      setKeptRobots(prev => prev.map(r => (r.id === id ? { ...r, prefix } : r)));
+      setKeptJointValues(prev => ({ ...prev, [id]: readJointValues(kept.robot) }));
+      if (id === activeRobotId) clearSelection();
+  };
+
+  // Hands the opened model's robot over to the scene and closes the model, so the next one
+  // opened is added next to it instead of replacing it
+  const handleKeepRobot = (prefix: string) => {
+      if (!robot) return;
+      const id = nextRobotIdRef.current++;
+      setNamePrefix(robot, prefix);
+      const label = currentFilePath.split('/').pop() || robot.robotName;
+      setKeptRobots(prev => [...prev, { id, label, robot, prefix, ...loadedPlacement }]);
+      setKeptJointValues(prev => ({ ...prev, [id]: readJointValues(robot) }));
+      setActiveRobotId(id);
+      setLoadedPlacement(defaultPlacement());
+      clearSelection();
+
+      startModelLoad();
+      stopWatching();
+      xacroSourceRef.current = null;
+      setXacroArgs([]);
+      setSourceFiles(new Map());
+      setShowEditor(false);
+      setAssets({});
+      setCurrentFilePath('');
+      setUrdfContent(null);
+  };
+
+  // The selection highlight swaps materials, so it is dropped before the overlay recolors them
+  const handleCompareChange = (id: number | null) => {
+      setCompareRobotId(id);
+      clearSelection();
+  };
+
+  const handleDiffSelect = (target: { type: DiffElementType; name: string }) => {
+      const obj = target.type === 'link' ? robot?.links[target.name] : robot?.joints[target.name];
+      if (obj) selectInLoadedRobot(obj);
+  };
+
+  const handleRemoveRobot = (id: number) => {
+      if (id === compareRobotId) setCompareRobotId(null);
+      setKeptRobots(prev => prev.filter(r => r.id !== id));
+      setKeptJointValues(prev => {
+          const next = { ...prev };
+          delete next[id];
+          return next;
+      });
+      if (id === activeRobotId) {
+          setActiveRobotId(LOADED_ROBOT_ID);
+          clearSelection();
+      }
+  };
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
+    if (file) stopWatching();
+    if (file && isArchiveFile(file.name)) {
+      setLoading(true);
+      setError(null);
+      try {
+        await openLocalFiles(await extractArchive(file));
+      } catch (err) {
+        console.error("Archive error:", err);
+        setError(err instanceof Error ? err.message : "Failed to extract archive");
+        setLoading(false);
+      }
+    } else if (file) {
       // Clear local map when using file input (assumed single file)
       localFilesRef.current.clear();
       
@@ -568,7 +1252,7 @@ function App() {
     }
   }, []);
 
-  const handleFolderChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFolderChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
       const files = event.target.files;
       if (!files || files.length === 0) return;
 
@@ -581,75 +1265,112 @@ function App() {
           // webkitRelativePath is like "folder/sub/file.ext"
           filesMap.set(file.webkitRelativePath, file);
       });
-      
-      localFilesRef.current = filesMap;
-      
-      const urdfFiles: File[] = [];
-      filesMap.forEach((file) => {
-          if (file.name.endsWith('.urdf') || file.name.endsWith('.xacro')) {
-              urdfFiles.push(file);
-          }
-      });
-
-      if (urdfFiles.length === 0) {
-          setError("No .urdf or .xacro file found in the selected folder.");
-          setLoading(false);
-          return;
-      }
+      // Lets the same folder be picked again
+      event.target.value = '';
 
-      let entryFile = urdfFiles.find(f => f.name.toLowerCase().includes('main'));
-      if (!entryFile) entryFile = urdfFiles.find(f => f.name.toLowerCase().includes('robot'));
-      if (!entryFile) entryFile = urdfFiles[0];
+      const watch = watchNextPickRef.current;
+      watchNextPickRef.current = false;
+      const root = folderKey(filesMap);
+      const read = async () => filesMap;
 
-      if (entryFile) {
-          const reader = new FileReader();
-          reader.onload = (ev) => {
-              const content = ev.target?.result as string;
-              setCurrentFilePath(entryFile!.name);
-              processAndSetContent(entryFile!.name, content, true);
-          };
-          reader.readAsText(entryFile);
+      try {
+          if (watch && root === watchedRootRef.current && filesMap.has(modelKeyRef.current)) {
+              // The watched folder picked again after it changed: reload it in place
+              await liveReloadRef.current(filesMap);
+              startWatching(root, read, pickedFileSignature);
+              return;
+          }
+          stopWatching();
+          await openLocalFiles(filesMap);
+          if (watch) startWatching(root, read, pickedFileSignature);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : "Failed to open folder");
+          setLoading(false);
       }
   }, []);
 
-  const handleSampleChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
-    const filename = event.target.value;
-    if (!filename) {
-      setUrdfContent(null);
-      return;
-    };
-    
+  // Samples (paths relative to the app) and remote URLs
+  const loadModelUrl = (filename: string) => {
     // Clear local map when switching to sample
     localFilesRef.current.clear();
+    stopWatching();
 
     setLoading(true);
     setCurrentFilePath(filename);
 
-    if (filename.endsWith('.xacro')) {
-            fetchAndFlattenXacro(filename)
-            .then(content => {
-                // Pass as 'local' (true) to skip backend call, but we already flattened it,
-                // so processAndSetContent will essentially just parse the URDF string.
-                processAndSetContent(filename, content, true);
-            })
-            .catch(err => {
-                console.error(err);
-                setError(`Failed to load Xacro: ${err.message}`);
-                setLoading(false);
-            });
-    } else {
-            fetch(filename)
-            .then(res => res.text())
-            .then(content => {
-                setUrdfContent(content);
-            })
-            .catch(() => {
-                    setError(`Failed to fetch ${filename}`);
-                    setLoading(false);
-            });
+    const signal = startModelLoad();
+    fetch(filename, { signal })
+    .then(res => {
+        if (!res.ok) throw new Error(`Failed to fetch ${filename}`);
+        return res.text();
+    })
+    .then(content => {
+        processAndSetContent(filename, content, false, false, signal);
+    })
+    .catch(() => {
+            if (signal.aborted) return;
+            setError(`Failed to fetch ${filename}`);
+            setLoading(false);
+    });
+  };
+
+  // Restores the state encoded in the page URL (see utils/deepLink.ts)
+  useEffect(() => {
+    const state = parseDeepLink(window.location.search, window.location.hash);
+    if (state.toggles) {
+        setShowWorldAxes(state.toggles.worldAxes);
+        setShowGrid(state.toggles.grid);
+        setShowLinkAxes(state.toggles.linkAxes);
+        setShowJointAxes(state.toggles.jointAxes);
+        setShowInertia(state.toggles.inertia);
+        setShowShadows(state.toggles.shadows);
+        setShowCom(state.toggles.com);
+        setShowSupportPolygon(state.toggles.support);
+        setWireframe(state.toggles.wireframe);
+    }
+    if (state.geometry) setCollisionMode(state.geometry);
+    // The camera is not reset by loading a model, so it can be placed right away
+    if (state.camera) cameraControlRef.current?.setView(state.camera);
+    if (state.model) {
+        preservedJointValuesRef.current = state.joints ?? null;
+        pendingLinkRef.current = state.link ?? null;
+        loadModelUrl(state.model);
     }
   }, []);
 
+  // Only samples and remote URLs can be opened from a link; dropped folders exist in this browser only
+  const shareableModel = sampleFiles.includes(currentFilePath) || /^https?:\/\//.test(currentFilePath) ? currentFilePath : null;
+
+  const handleCopyLink = async () => {
+      const url = buildDeepLink(window.location.origin + window.location.pathname, {
+          model: shareableModel ?? undefined,
+          // Floating and planar joints cannot be written as one number
+          joints: Object.fromEntries(Object.entries(jointValues).filter(([name]) => robot?.joints[name] && isScalarJoint(robot.joints[name]))),
+          camera: cameraControlRef.current?.getView(),
+          link: linkSelection.name ?? undefined,
+          toggles: {
+              worldAxes: showWorldAxes,
+              grid: showGrid,
+              linkAxes: showLinkAxes,
+              jointAxes: showJointAxes,
+              inertia: showInertia,
+              shadows: showShadows,
+              com: showCom,
+              support: showSupportPolygon,
+              wireframe,
+          },
+          geometry: collisionMode,
+      });
+      try {
+          await navigator.clipboard.writeText(url);
+          setLinkCopied(true);
+          setTimeout(() => setLinkCopied(false), 1500);
+      } catch {
+          // Clipboard access needs a secure context and focus
+          window.prompt('Copy this link:', url);
+      }
+  };
+
   // --- Drag & Drop Handlers ---
   const handleDragOver = useCallback((e: React.DragEvent) => {
       e.preventDefault();
@@ -669,52 +1390,11 @@ function App() {
 
       setLoading(true);
       setError(null);
+      stopWatching();
 
       try {
-          const filesMap = await getAllFiles(e.dataTransfer.items);
-          localFilesRef.current = filesMap;
-          
-          // Find entry file (.urdf or .xacro)
-          const urdfFiles: File[] = [];
-          
-          filesMap.forEach((file) => {
-              if (file.name.toLowerCase().endsWith('.urdf') || file.name.toLowerCase().endsWith('.xacro')) {
-                  urdfFiles.push(file);
-              }
-          });
-
-          if (urdfFiles.length === 0) {
-              throw new Error("No .urdf or .xacro file found in the dropped folder.");
-          }
-
-          // Heuristic to find the best entry point
-          // 1. Look for 'main' in the filename (user's specific request)
-          // 2. Look for 'robot' in the filename
-          // 3. Fallback to shortest path (likely in root)
-          
-          let entryFile = urdfFiles.find(f => f.name.toLowerCase().includes('main'));
-          
-          if (!entryFile) {
-              entryFile = urdfFiles.find(f => f.name.toLowerCase().includes('robot'));
-          }
-
-          if (!entryFile) {
-              // Sort by path length (depth), pick the shallowest one
-              // Since we don't have full path here easily accessible attached to File object in this array 
-              // (we only stored File objects), we might just pick the first one.
-              // But actually we have access to the map. Let's just pick the first one for now as fallback.
-              entryFile = urdfFiles[0];
-          }
-          
-          if (entryFile) {
-             const reader = new FileReader();
-             reader.onload = (ev) => {
-                 const content = ev.target?.result as string;
-                 setCurrentFilePath(entryFile!.name); // Or full path? URDFLoader doesn't use this for parsing, only my logic
-                 processAndSetContent(entryFile!.name, content, true);
-             };
-             reader.readAsText(entryFile);
-          }
+          // Dropped .zip / .tar.gz packages are unpacked in place
+          await openLocalFiles(await expandArchives(await getAllFiles(e.dataTransfer.items)));
       } catch (err) {
           console.error("Drop error:", err);
           setError(err instanceof Error ? err.message : "Failed to process dropped files");
@@ -731,7 +1411,7 @@ function App() {
     >
       {isDragActive && (
           <div className="drag-overlay">
-              <h3>Drop URDF/Xacro Folder Here</h3>
+              <h3>Drop URDF/Xacro/MJCF/SDF Folder or Archive Here</h3>
           </div>
       )}
       
@@ -763,18 +1443,15 @@ function App() {
                 </a>
             </div>
             <p>Load a sample or drag & drop a folder.</p>
-            <select onChange={handleSampleChange} value={sampleFiles.includes(currentFilePath) ? currentFilePath : ""} className="file-input">
-                <option value="">-- Select a Sample --</option>
-                {sampleFiles.map(f => <option key={f} value={f}>{f}</option>)}
-            </select>
+            <SampleGallery samples={samples} currentPath={currentFilePath} onSelect={loadModelUrl} />
             
             <label htmlFor="file-upload" className="custom-file-upload btn-file">
-                <i>📄</i> Select URDF/Xacro File
+                <i>📄</i> Select URDF/Xacro/MJCF/SDF File or Zip
             </label>
             <input 
                 id="file-upload"
                 type="file" 
-                accept=".urdf,.xacro" 
+                accept=".urdf,.xacro,.xml,.sdf,.world,.zip,.tar.gz,.tgz,.tar" 
                 onChange={handleFileChange} 
                 className="file-input-hidden" 
             />
@@ -789,27 +1466,151 @@ function App() {
                 onChange={handleFolderChange} 
                 className="file-input-hidden" 
             />
+
+            <button className="custom-file-upload btn-watch" onClick={handleWatchFolder} title="Reload the model whenever a file of the folder changes">
+                <i>👁️</i> Watch Project Folder
+            </button>
+            {watchedFolder && (
+                <div className={`watch-status ${watchedFolder.stale ? 'stale' : ''}`}>
+                    {watchedFolder.stale
+                        ? <>Changes to <b>{watchedFolder.name}</b> can't be read. <a onClick={handleWatchFolder}>Select it again</a> to reload.</>
+                        : <>Watching <b>{watchedFolder.name}</b></>}
+                    <button className="close-btn" onClick={stopWatching} title="Stop watching">×</button>
+                </div>
+            )}
+
+            {urdfContent && (
+                <button className="custom-file-upload btn-packages" onClick={() => setShowPackagesDialog(true)}>
+                    <i>📦</i> Packages ({packageNames.length})
+                </button>
+            )}
+            {robot && shareableModel && (
+                <button className="custom-file-upload btn-link" onClick={handleCopyLink} title="Copy a link that opens this model in the current pose and view">
+                    <i>🔗</i> {linkCopied ? 'Link copied' : 'Copy link'}
+                </button>
+            )}
+            {urdfContent && sourceFiles.size > 0 && (
+                <button className="custom-file-upload btn-editor" onClick={() => setShowEditor(v => !v)}>
+                    <i>📝</i> {showEditor ? 'Hide Source' : 'Edit Source'}
+                </button>
+            )}
+            {urdfContent && (
+                <button className="custom-file-upload btn-export" onClick={() => setShowExportDialog(true)}>
+                    <i>⬇️</i> Download URDF
+                </button>
+            )}
+            {robot && (
+                <button className="custom-file-upload btn-export" onClick={openGltfDialog}>
+                    <i>🧊</i> Export glTF
+                </button>
+            )}
+            {problems.length > 0 && (
+                <ProblemsPanel
+                    issues={problems}
+                    isExpanded={!currentFilePath.toLowerCase().endsWith('.urdf')}
+                    onSelect={handleProblemSelect}
+                />
+            )}
+            {Object.keys(assets).length > 0 && (
+                <AssetsPanel
+                    assets={Object.values(assets)}
+                    onRetry={reloadModel}
+                    onReplace={handleAssetReplace}
+                    persistCache={persistMeshes}
+                    onPersistCacheChange={handlePersistMeshesChange}
+                    onClearCache={clearMeshCache}
+                />
+            )}
+            {robot && keptRobots.length > 0 && (
+                <DiffPanel
+                    candidates={keptRobots.map(r => ({ id: r.id, label: r.prefix ? `${r.label} (${r.prefix})` : r.label }))}
+                    baselineId={compareKept?.id ?? null}
+                    onBaselineChange={handleCompareChange}
+                    diff={versionDiff}
+                    onSelect={handleDiffSelect}
+                />
+            )}
+            {xacroArgs.length > 0 && (
+                <>
+                    <hr />
+                    <XacroArgsPanel args={xacroArgs} values={xacroArgValues} onApply={handleXacroArgsApply} />
+                </>
+            )}
             <hr />
             <DisplayOptions
                 showWorldAxes={showWorldAxes} setShowWorldAxes={setShowWorldAxes}
                 showGrid={showGrid} setShowGrid={setShowGrid}
                 showLinkAxes={showLinkAxes} setShowLinkAxes={setShowLinkAxes}
                 showJointAxes={showJointAxes} setShowJointAxes={setShowJointAxes}
+                showInertia={showInertia} setShowInertia={setShowInertia}
                 wireframe={wireframe} setWireframe={setWireframe}
+                collisionMode={collisionMode} setCollisionMode={setCollisionMode}
             />
             <hr />
+            {(robot || keptRobots.length > 0) && (
+                <>
+                    <ScenePanel
+                        loadedLabel={robot ? currentFilePath.split('/').pop() || robot.robotName : null}
+                        loadedPlacement={loadedPlacement}
+                        keptRobots={keptRobots}
+                        activeRobotId={activeRobotId}
+                        onActivate={handleActivateRobot}
+                        onPlacementChange={handlePlacementChange}
+                        onPrefixChange={handlePrefixChange}
+                        onKeep={handleKeepRobot}
+                        canKeep={!loading}
+                        onRemove={handleRemoveRobot}
+                        gizmoMode={gizmoMode} setGizmoMode={setGizmoMode}
+                    />
+                    <hr />
+                </>
+            )}
             {robot && (
+                <>
+                    <LevelOfDetailPanel
+                        stats={triangleStats}
+                        enabled={simplifyMeshes} setEnabled={setSimplifyMeshes}
+                        budget={triangleBudget} setBudget={setTriangleBudget}
+                        fullResolutionPicking={fullResolutionPicking} setFullResolutionPicking={setFullResolutionPicking}
+                    />
+                    <hr />
+                </>
+            )}
+            {massProperties && (
+                <>
+                    <MassPropertiesPanel
+                        massProperties={massProperties}
+                        supportPolygon={supportPolygon}
+                        showCom={showCom} setShowCom={setShowCom}
+                        showSupportPolygon={showSupportPolygon} setShowSupportPolygon={setShowSupportPolygon}
+                    />
+                    <hr />
+                </>
+            )}
+            {activeRobot && (
                 <JointController 
-                    robot={robot} 
-                    jointValues={jointValues} 
+                    robot={activeRobot} 
+                    jointValues={activeJointValues} 
                     onJointChange={handleJointChange} 
                 />
             )}
-            {error && <div style={{ color: 'red' }}>{error}</div>}
+            {error && <div style={{ color: 'red', whiteSpace: 'pre-wrap' }}>{error}</div>}
         </div>
       </div>
               <div className="viewer-container">
-              {loading && <div className="loading-indicator">Loading...</div>}
+              {loading && (
+                  <div className="loading-indicator">
+                      Loading...{loadProgress.total > 0 && ` ${loadProgress.loaded} / ${loadProgress.total}`}
+                      {loadProgress.total > 0 && (
+                          <>
+                              <div className="loading-progress">
+                                  <div style={{ width: `${(100 * loadProgress.loaded) / loadProgress.total}%` }} />
+                              </div>
+                              <div className="loading-file" title={loadProgress.current ?? ''}>{loadProgress.current?.split('?')[0].split('/').pop()}</div>
+                          </>
+                      )}
+                  </div>
+              )}
               
               {/* Link Info Popup - Hidden when Tree is open */}
               {linkSelection.visible && !showStructureTree && (
@@ -829,7 +1630,7 @@ function App() {
                 name={jointSelection.joint.name}
                 matrix={null}
                 joint={jointSelection.joint}
-                value={jointValues[jointSelection.joint.name]}
+                value={activeJointValues[jointSelection.joint.name]}
                 onJointChange={(val) => handleJointChange(jointSelection.joint!.name, val)}
                 top={jointSelection.position.y}
                 left={jointSelection.position.x}
@@ -839,7 +1640,10 @@ function App() {
         )}
 
         <Viewer
-          robot={robot}
+          robot={activeRobot}
+          robots={sceneRobots}
+          gizmoMode={gizmoMode}
+          onRobotMoved={handleRobotMoved}
           isCtrlPressed={isCtrlPressed}
           // Pass name regardless of visible flag, allowing highlight-only state
           selectedLinkName={linkSelection.name}
@@ -848,8 +1652,10 @@ function App() {
           showGrid={showGrid}
           showLinkAxes={showLinkAxes}
           showJointAxes={showJointAxes}
+          showInertia={showInertia}
           showShadows={showShadows}
           wireframe={wireframe}
+          collisionMode={collisionMode}
           onSelectionUpdate={handleSelectionUpdate}
           onJointSelect={handleJointSelect}
           onJointChange={handleJointChange}
@@ -858,10 +1664,14 @@ function App() {
           measurementPoints={measurementPoints}
           onMeasurementClick={handleMeasurementClick}
           onMeasurementRemove={handleMeasurementRemove}
+          centerOfMass={showCom && massProperties ? massProperties.com : null}
+          groundZ={supportPolygon ? supportPolygon.groundZ : 0}
+          supportPolygon={showSupportPolygon && supportPolygon ? supportPolygon.points : null}
+          cameraControlRef={cameraControlRef}
         />
 
         {/* Floating Toggle Button for Structure Tree */}
-        {robot && (
+        {activeRobot && (
             <>
                 {/* Measurement Button - Left of Shadows */}
                 <button 
@@ -901,7 +1711,7 @@ function App() {
         )}
 
         {/* Structure Tree Overlay - Always mounted to preserve state, toggled via CSS */}
-        {robot && (
+        {activeRobot && (
             <div style={{ 
                 display: showStructureTree ? 'block' : 'none', 
                 position: 'absolute', 
@@ -912,28 +1722,62 @@ function App() {
                 zIndex: 2000,
                 pointerEvents: isCtrlPressed ? 'none' : 'auto' 
             }}>
+                {/* Remounted when the names change: a new prefix renames the same objects */}
                 <StructureTree 
-                    robot={robot} 
+                    key={`${activeRobotId}:${activeKept?.prefix ?? ''}`}
+                    robot={activeRobot} 
                     isCtrlPressed={isCtrlPressed}
                     selectedLinkName={linkSelection.name}
                     selectedJointName={jointSelection.joint?.name || null}
                     onClose={() => setShowStructureTree(false)} 
-                    onSelect={(obj) => {
-                        // Check type and call appropriate handler
-                        if ((obj as any).isURDFLink) {
-                            const link = obj as THREE.Object3D;
-                            link.updateWorldMatrix(true, false);
-                            // Pass visible=false to highlight WITHOUT showing the InfoPopup
-                            handleSelectionUpdate(link.name, link.matrixWorld, link.parent ? link.parent.matrixWorld : null, false);
-                        } else if ((obj as any).isURDFJoint) {
-                            const joint = obj as URDFJoint;
-                            handleJointSelect(joint);
-                        }
-                    }}
+                    onSelect={handleObjectSelect}
+                    failedLinkNames={activeKept ? undefined : failedLinkNames}
+                    changedNames={activeKept ? undefined : versionDiff?.changedNames}
                 />
             </div>
         )}
       </div>
+
+      {showEditor && urdfContent && sourceFiles.size > 0 && (
+          <SourceEditor
+              key={sourceFiles.keys().next().value}
+              files={sourceFiles}
+              selectedLinkName={linkSelection.name}
+              onEdit={handleSourceEdit}
+              onJointCursor={handleJointCursor}
+              onClose={() => setShowEditor(false)}
+          />
+      )}
+
+      {showPackagesDialog && (
+          <PackagesDialog
+              packageNames={packageNames}
+              mappings={packageMappings}
+              detected={detectedPackages}
+              folders={listFolders(localFilesRef.current)}
+              onApply={handlePackagesApply}
+              onClose={() => setShowPackagesDialog(false)}
+          />
+      )}
+      {showExportDialog && (
+          <ExportDialog
+              robotName={robot?.robotName || 'robot'}
+              onExport={handleExport}
+              onClose={() => setShowExportDialog(false)}
+          />
+      )}
+      {showGltfDialog && (
+          <GltfExportDialog onExport={handleGltfExport} onClose={() => setShowGltfDialog(false)} />
+      )}
+
+      {entryChoice && (
+          <EntryFileDialog
+              candidates={entryChoice.candidates}
+              preselected={entryChoice.preselected}
+              onOpen={handleEntryChosen}
+              onClose={() => setEntryChoice(null)}
+          />
+      )}
     </div>
   );
 }
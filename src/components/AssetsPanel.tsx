@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { AssetStatus, ASSET_STATE_LABELS, formatBytes, isFailedAsset } from '../utils/assetStatus';
+
+interface AssetsPanelProps {
+  assets: AssetStatus[];
+  onRetry: () => void;
+  // A file dropped onto an entry replaces that mesh
+  onReplace: (uri: string, file: File) => void;
+  // Parsed STL/PLY meshes are kept in IndexedDB between sessions
+  persistCache: boolean;
+  onPersistCacheChange: (persist: boolean) => void;
+  onClearCache: () => void;
+}
+
+const AssetsPanel: React.FC<AssetsPanelProps> = ({ assets, onRetry, onReplace, persistCache, onPersistCacheChange, onClearCache }) => {
+  const [collapsed, setCollapsed] = useState(true);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const failedCount = assets.filter(isFailedAsset).length;
+  const loadingCount = assets.filter(a => a.state === 'loading').length;
+  // Failures first, then in load order
+  const sorted = [...assets].sort((a, b) => Number(isFailedAsset(b)) - Number(isFailedAsset(a)));
+
+  const handleDrop = (e: React.DragEvent, uri: string) => {
+    // Keep the drop from reaching the app-wide folder drop handler
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    const file = e.dataTransfer.files[0];
+    if (file) onReplace(uri, file);
+  };
+
+  return (
+    <div className="problems-panel">
+      <div className="problems-header" onClick={() => setCollapsed(!collapsed)}>
+        <span>{collapsed ? '▶' : '▼'} Assets ({assets.length})</span>
+        <span>
+          {loadingCount > 0 && <span className="problem-count loading">{loadingCount}</span>}
+          {failedCount > 0 && <span className="problem-count error">{failedCount}</span>}
+        </span>
+      </div>
+      {!collapsed && (
+        <>
+          <div className="problems-note" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span>Drop a file onto an entry to replace it.</span>
+            {failedCount > 0 && <button onClick={onRetry} style={{ padding: '2px 8px', cursor: 'pointer' }}>Retry</button>}
+          </div>
+          <div className="problems-note" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <label title="Reopening a model takes its STL/PLY meshes from the browser instead of parsing them again">
+              <input type="checkbox" checked={persistCache} onChange={(e) => onPersistCacheChange(e.target.checked)} />
+              {' '}Keep meshes between sessions
+            </label>
+            <button onClick={onClearCache} style={{ padding: '2px 8px', cursor: 'pointer' }}>Clear cache</button>
+          </div>
+          <div className="assets-table-wrapper">
+            <table className="assets-table">
+              <thead>
+                <tr><th>File</th><th>Status</th><th>Size</th><th>Time</th></tr>
+              </thead>
+              <tbody>
+                {sorted.map(asset => (
+                  <tr
+                    key={asset.uri}
+                    className={`${isFailedAsset(asset) ? 'failed' : ''} ${dropTarget === asset.uri ? 'drop-target' : ''}`}
+                    onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setDropTarget(asset.uri); }}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => handleDrop(e, asset.uri)}
+                    title={`${asset.uri}\nLinks: ${asset.links.join(', ') || '—'}`}
+                  >
+                    <td>
+                      <div className="asset-name">{asset.uri.split('/').pop()}</div>
+                      <div className="asset-url">{asset.resolvedUrl}</div>
+                    </td>
+                    <td className={`asset-state ${asset.state}`}>
+                      {ASSET_STATE_LABELS[asset.state]}
+                      {asset.reason && <div className="asset-url">{asset.reason}</div>}
+                      {asset.replaced && <div className="asset-url">replaced</div>}
+                      {asset.cache && <div className="asset-url">{asset.cache === 'disk' ? 'from disk cache' : 'cached'}</div>}
+                    </td>
+                    <td>{formatBytes(asset.bytes)}</td>
+                    <td>{asset.loadTimeMs !== null ? `${Math.round(asset.loadTimeMs)} ms` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AssetsPanel;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { DiffElementType, UrdfDiff } from '../utils/urdfDiff';
+import { NEW_VERSION_COLOR, OLD_VERSION_COLOR } from '../utils/diffOverlay';
+
+interface DiffPanelProps {
+  // Robots kept in the scene, any of which can be the old version
+  candidates: { id: number; label: string }[];
+  baselineId: number | null;
+  onBaselineChange: (id: number | null) => void;
+  diff: UrdfDiff | null;
+  // Selects a link or joint of the opened (new) version
+  onSelect: (target: { type: DiffElementType; name: string }) => void;
+}
+
+interface DiffEntry {
+  kind: 'added' | 'removed' | 'renamed' | 'changed';
+  type: DiffElementType;
+  // Name in the new version; null for removed elements
+  target: string | null;
+  message: string;
+}
+
+const ICONS: Record<DiffEntry['kind'], string> = { added: '+', removed: '−', renamed: '→', changed: '~' };
+
+const toEntries = (diff: UrdfDiff): DiffEntry[] => [
+  ...diff.added.map(({ type, name }): DiffEntry => ({ kind: 'added', type, target: name, message: `${type} ${name} added` })),
+  ...diff.removed.map(({ type, name }): DiffEntry => ({ kind: 'removed', type, target: null, message: `${type} ${name} removed` })),
+  ...diff.renamed.map(({ type, from, to }): DiffEntry => ({ kind: 'renamed', type, target: to, message: `${type} ${from} renamed to ${to}` })),
+  ...diff.changes.map(({ type, name, field, before, after }): DiffEntry => ({
+    kind: 'changed', type, target: name, message: `${type} ${name}: ${field} ${before} → ${after}`,
+  })),
+];
+
+const swatch = (color: number): React.CSSProperties => ({
+  display: 'inline-block', width: 10, height: 10, borderRadius: 2, marginRight: 4, backgroundColor: `#${color.toString(16).padStart(6, '0')}`,
+});
+
+const DiffPanel: React.FC<DiffPanelProps> = ({ candidates, baselineId, onBaselineChange, diff, onSelect }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const entries = diff ? toEntries(diff) : [];
+
+  return (
+    <div className="problems-panel">
+      <div className="problems-header" onClick={() => setCollapsed(!collapsed)}>
+        <span>{collapsed ? '▶' : '▼'} Compare Versions</span>
+        {diff && <span><span className="problem-count warning">{entries.length}</span></span>}
+      </div>
+      {!collapsed && (
+        <>
+          <div className="problems-note" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <label htmlFor="diffBaseline">Old version</label>
+            <select
+              id="diffBaseline"
+              value={baselineId ?? ''}
+              onChange={(e) => onBaselineChange(e.target.value ? Number(e.target.value) : null)}
+              style={{ flex: 1, minWidth: 0 }}
+            >
+              <option value="">None</option>
+              {candidates.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+            </select>
+          </div>
+          {diff && (
+            <>
+              <div className="problems-note">
+                <span style={swatch(OLD_VERSION_COLOR)} />old
+                <span style={{ ...swatch(NEW_VERSION_COLOR), marginLeft: 10 }} />new (opened)
+              </div>
+              {entries.length === 0 ? (
+                <div className="problems-note">No differences in links and joints.</div>
+              ) : (
+                <ul className="problems-list">
+                  {entries.map((entry, i) => (
+                    <li
+                      key={i}
+                      className={`problem-item diff-${entry.kind} ${entry.target ? 'clickable' : ''}`}
+                      onClick={() => entry.target && onSelect({ type: entry.type, name: entry.target })}
+                      title={entry.target ? `Select ${entry.type} "${entry.target}"` : undefined}
+                    >
+                      <span className="problem-icon">{ICONS[entry.kind]}</span>
+                      <span className="problem-message">{entry.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DiffPanel;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { CollisionMode } from './Viewer';
 
 interface DisplayOptionsProps {
   showWorldAxes: boolean;
@@ -9,8 +10,12 @@ interface DisplayOptionsProps {
   setShowLinkAxes: (v: boolean) => void;
   showJointAxes: boolean;
   setShowJointAxes: (v: boolean) => void;
+  showInertia: boolean;
+  setShowInertia: (v: boolean) => void;
   wireframe: boolean;
   setWireframe: (v: boolean) => void;
+  collisionMode: CollisionMode;
+  setCollisionMode: (v: CollisionMode) => void;
 }
 
 const DisplayOptions: React.FC<DisplayOptionsProps> = (props) => {
@@ -23,8 +28,12 @@ const DisplayOptions: React.FC<DisplayOptionsProps> = (props) => {
     setShowLinkAxes,
     showJointAxes,
     setShowJointAxes,
+    showInertia,
+    setShowInertia,
     wireframe,
     setWireframe,
+    collisionMode,
+    setCollisionMode,
   } = props;
 
   return (
@@ -45,11 +54,23 @@ const DisplayOptions: React.FC<DisplayOptionsProps> = (props) => {
       <div className="option-item">
         <input type="checkbox" id="showJointAxes" checked={showJointAxes} onChange={(e) => setShowJointAxes(e.target.checked)} />
         <label htmlFor="showJointAxes">Show Joint Frames (J)</label>
+      </div>
+      <div className="option-item">
+        <input type="checkbox" id="showInertia" checked={showInertia} onChange={(e) => setShowInertia(e.target.checked)} />
+        <label htmlFor="showInertia">Show Inertia (I)</label>
       </div>
        <div className="option-item">
         <input type="checkbox" id="wireframe" checked={wireframe} onChange={(e) => setWireframe(e.target.checked)} />
         <label htmlFor="wireframe">Enable Wireframe (F)</label>
       </div>
+      <div className="option-item">
+        <label htmlFor="collisionMode" style={{ marginRight: '0.5rem' }}>Geometry (C)</label>
+        <select id="collisionMode" value={collisionMode} onChange={(e) => setCollisionMode(e.target.value as CollisionMode)}>
+          <option value="visual">Visual Only</option>
+          <option value="collision">Collision Only</option>
+          <option value="both">Visual + Collision</option>
+        </select>
+      </div>
     </div>
   );
 };
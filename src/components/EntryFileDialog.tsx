@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { EntryCandidate } from '../utils/entryFiles';
+
+interface EntryFileDialogProps {
+  candidates: EntryCandidate[];
+  preselected: string;
+  onOpen: (path: string) => void;
+  onClose: () => void;
+}
+
+const EntryFileDialog: React.FC<EntryFileDialogProps> = ({ candidates, preselected, onOpen, onClose }) => {
+  const [selected, setSelected] = useState(preselected);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="info-popup-header">
+          <h4>Choose Entry File</h4>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+        <p className="modal-hint">
+          The folder contains several model files. Files included by another one are usually parts of a
+          larger description; the choice is remembered for this folder.
+        </p>
+        <table className="packages-table entry-table">
+          <thead>
+            <tr><th></th><th>File</th><th>Robot</th><th>Included by</th></tr>
+          </thead>
+          <tbody>
+            {candidates.map(c => (
+              <tr
+                key={c.path}
+                className={c.path === selected ? 'selected' : ''}
+                onClick={() => setSelected(c.path)}
+                onDoubleClick={() => onOpen(c.path)}
+              >
+                <td><input type="radio" checked={c.path === selected} onChange={() => setSelected(c.path)} /></td>
+                <td>{c.path}</td>
+                <td>{c.robotName ?? '—'}</td>
+                <td title={c.includedBy.join('\n')}>
+                  {c.includedBy.length === 0
+                    ? <span className="tag">top level</span>
+                    : `${c.includedBy[0].split('/').pop()}${c.includedBy.length > 1 ? ` +${c.includedBy.length - 1}` : ''}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="modal-actions">
+          <span style={{ flex: 1 }} />
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={() => onOpen(selected)}>Open</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntryFileDialog;
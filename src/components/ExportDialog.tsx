@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { MeshUriMode } from '../utils/urdfExport';
+
+export interface ExportSettings {
+  meshUriMode: MeshUriMode;
+  packageName: string;
+  bundleMeshes: boolean;
+}
+
+interface ExportDialogProps {
+  robotName: string;
+  // Resolves with the URIs of meshes that could not be added to the zip
+  onExport: (settings: ExportSettings) => Promise<string[]>;
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ robotName, onExport, onClose }) => {
+  const [meshUriMode, setMeshUriMode] = useState<MeshUriMode>('original');
+  const [packageName, setPackageName] = useState(robotName);
+  const [bundleMeshes, setBundleMeshes] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [missing, setMissing] = useState<string[] | null>(null);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const failed = await onExport({ meshUriMode, packageName: packageName.trim() || robotName, bundleMeshes });
+      if (failed.length === 0) onClose();
+      else setMissing(failed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="info-popup-header">
+          <h4>Download URDF</h4>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+        <p className="modal-hint">
+          Saves the loaded model as a pretty-printed URDF, with xacro or MJCF/SDF sources already expanded.
+        </p>
+        <div className="export-options">
+          <label>
+            Mesh paths
+            <select value={meshUriMode} onChange={(e) => setMeshUriMode(e.target.value as MeshUriMode)}>
+              <option value="original">Keep as written</option>
+              <option value="relative">Relative (meshes/…)</option>
+              <option value="package">package://</option>
+            </select>
+          </label>
+          {meshUriMode === 'package' && (
+            <label>
+              Package name
+              <input type="text" value={packageName} onChange={(e) => setPackageName(e.target.value)} />
+            </label>
+          )}
+          <label className="export-checkbox">
+            <input type="checkbox" checked={bundleMeshes} onChange={(e) => setBundleMeshes(e.target.checked)} />
+            Bundle meshes in a zip
+          </label>
+          {bundleMeshes && (
+            <div className="modal-hint">
+              The zip holds the URDF at its root and every mesh at the path it is given in the relative
+              and package:// modes. Textures referenced from inside mesh files are not included.
+            </div>
+          )}
+        </div>
+        {missing && (
+          <div className="export-missing">
+            {missing.length} mesh{missing.length === 1 ? '' : 'es'} could not be fetched and {missing.length === 1 ? 'was' : 'were'} left out:
+            <ul>{missing.map(uri => <li key={uri}>{uri}</li>)}</ul>
+          </div>
+        )}
+        <div className="modal-actions">
+          <span style={{ flex: 1 }} />
+          <button onClick={onClose}>{missing ? 'Close' : 'Cancel'}</button>
+          <button onClick={handleExport} disabled={busy}>{busy ? 'Preparing…' : 'Download'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
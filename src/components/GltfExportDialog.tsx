@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { GltfExportOptions, GltfHierarchy } from '../utils/gltfExport';
+
+interface GltfExportDialogProps {
+  onExport: (options: GltfExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const GltfExportDialog: React.FC<GltfExportDialogProps> = ({ onExport, onClose }) => {
+  const [binary, setBinary] = useState(true);
+  const [hierarchy, setHierarchy] = useState<GltfHierarchy>('nested');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onExport({ binary, hierarchy });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="info-popup-header">
+          <h4>Export glTF</h4>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+        <p className="modal-hint">
+          Exports the visual geometry in the current pose, with link names and materials. Collision shapes
+          and viewer helpers are left out.
+        </p>
+        <div className="export-options">
+          <label>
+            Format
+            <select value={binary ? 'glb' : 'gltf'} onChange={(e) => setBinary(e.target.value === 'glb')}>
+              <option value="glb">GLB (binary)</option>
+              <option value="gltf">glTF (JSON)</option>
+            </select>
+          </label>
+          <label>
+            Hierarchy
+            <select value={hierarchy} onChange={(e) => setHierarchy(e.target.value as GltfHierarchy)}>
+              <option value="nested">Links and joints as nested nodes</option>
+              <option value="baked">Single baked mesh</option>
+            </select>
+          </label>
+          {hierarchy === 'nested' && (
+            <div className="modal-hint">
+              Joint nodes carry their type, axis, limits and value as glTF extras, so they can be animated in
+              tools like Blender.
+            </div>
+          )}
+        </div>
+        {error && <div className="export-missing">{error}</div>}
+        <div className="modal-actions">
+          <span style={{ flex: 1 }} />
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={handleExport} disabled={busy}>{busy ? 'Exporting…' : 'Export'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GltfExportDialog;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { URDFJoint } from 'urdf-loader';
+import { isScalarJoint } from '../utils/urdfDescription';
 
 interface InfoPopupProps {
   name: string | null;
@@ -183,25 +184,27 @@ const InfoPopup: React.FC<InfoPopupProps> = ({ name, matrix, parentMatrix, joint
                   <p><strong>Child:</strong> {childName}</p>
                   <p><strong>Axis:</strong> {axis}</p>
               </div>
-              <div className="matrix-section">
-                  <h5>Control</h5>
-                  <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-                      <span>{min.toFixed(2)}</span>
-                      <input 
-                        type="range" 
-                        min={min} 
-                        max={max} 
-                        step={step} 
-                        value={displayValue} 
-                        onChange={handleSliderChange}
-                        style={{ flex: 1 }}
-                      />
-                      <span>{max.toFixed(2)}</span>
-                  </div>
-                  <div style={{ textAlign: 'center', marginTop: '5px' }}>
-                     Value: <strong>{displayValue.toFixed(3)}</strong> {unit}
-                  </div>
-              </div>
+              {isScalarJoint(joint) && (
+                <div className="matrix-section">
+                    <h5>Control</h5>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        <span>{min.toFixed(2)}</span>
+                        <input 
+                          type="range" 
+                          min={min} 
+                          max={max} 
+                          step={step} 
+                          value={displayValue} 
+                          onChange={handleSliderChange}
+                          style={{ flex: 1 }}
+                        />
+                        <span>{max.toFixed(2)}</span>
+                    </div>
+                    <div style={{ textAlign: 'center', marginTop: '5px' }}>
+                       Value: <strong>{displayValue.toFixed(3)}</strong> {unit}
+                    </div>
+                </div>
+              )}
           </div>
       );
   } else if (displayMatrix) {
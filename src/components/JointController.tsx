@@ -1,5 +1,6 @@
 import React from 'react';
 import { URDFRobot, URDFJoint } from 'urdf-loader';
+import { isScalarJoint } from '../utils/urdfDescription';
 
 interface JointControllerProps {
   robot: URDFRobot;
@@ -8,9 +9,8 @@ interface JointControllerProps {
 }
 
 const JointController: React.FC<JointControllerProps> = ({ robot, jointValues, onJointChange }) => {
-  const movableJoints = Object.values(robot.joints).filter(
-    (joint) => joint.jointType !== 'fixed'
-  );
+  // Floating and planar joints have no slider, and Reset leaves them alone
+  const movableJoints = Object.values(robot.joints).filter(isScalarJoint);
 
   const handleSliderChange = (jointName: string, value: number) => {
     onJointChange(jointName, value);
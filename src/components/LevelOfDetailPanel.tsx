@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { TriangleStats } from '../utils/meshLod';
+
+interface LevelOfDetailPanelProps {
+  stats: TriangleStats | null;
+  enabled: boolean;
+  setEnabled: (v: boolean) => void;
+  // Triangles per link at normal viewing distance
+  budget: number;
+  setBudget: (v: number) => void;
+  fullResolutionPicking: boolean;
+  setFullResolutionPicking: (v: boolean) => void;
+}
+
+const formatCount = (n: number) => (n >= 1e6 ? `${(n / 1e6).toFixed(2)}M` : n >= 1e4 ? `${Math.round(n / 1e3)}k` : n.toLocaleString());
+
+const LevelOfDetailPanel: React.FC<LevelOfDetailPanelProps> = (props) => {
+  const { stats, enabled, setEnabled, budget, setBudget, fullResolutionPicking, setFullResolutionPicking } = props;
+  const [draftBudget, setDraftBudget] = useState(String(budget));
+
+  useEffect(() => { setDraftBudget(String(budget)); }, [budget]);
+
+  // Simplifying is not instant on big models, so the budget applies on Enter or blur rather than per keystroke
+  const commitBudget = () => {
+    const value = parseInt(draftBudget, 10);
+    if (Number.isFinite(value) && value >= 100) setBudget(value);
+    else setDraftBudget(String(budget));
+  };
+
+  const rowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', fontSize: '0.9rem' };
+  const valStyle: React.CSSProperties = { fontFamily: 'Consolas, monospace', color: '#eee' };
+
+  return (
+    <div className="display-options-container">
+      <h3>Level of Detail</h3>
+      {stats && (
+        <div style={rowStyle}>
+          <span>Triangles</span>
+          <span style={valStyle}>
+            {formatCount(stats.before)}
+            {enabled && stats.simplifiedLinks > 0 && ` → ${formatCount(stats.after)}`}
+          </span>
+        </div>
+      )}
+      {enabled && stats && (
+        <div style={{ color: '#888', fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+          {stats.simplifiedLinks > 0
+            ? `${stats.simplifiedLinks} link${stats.simplifiedLinks === 1 ? '' : 's'} over budget simplified; full detail when zoomed in.`
+            : 'Every link is within the budget.'}
+        </div>
+      )}
+      <div className="option-item">
+        <input type="checkbox" id="simplifyMeshes" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        <label htmlFor="simplifyMeshes">Simplify Heavy Meshes</label>
+      </div>
+      <div className="option-item">
+        <label htmlFor="triangleBudget" style={{ marginRight: '0.5rem' }}>Triangles per Link</label>
+        <input
+          id="triangleBudget"
+          type="number"
+          min={100}
+          step={1000}
+          value={draftBudget}
+          disabled={!enabled}
+          onChange={(e) => setDraftBudget(e.target.value)}
+          onBlur={commitBudget}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitBudget(); }}
+          style={{ width: '90px' }}
+        />
+      </div>
+      <div className="option-item">
+        <input
+          type="checkbox"
+          id="fullResolutionPicking"
+          checked={fullResolutionPicking}
+          disabled={!enabled}
+          onChange={(e) => setFullResolutionPicking(e.target.checked)}
+        />
+        <label htmlFor="fullResolutionPicking" title="Selection, measurement and joint dragging hit the original triangles (slower on huge meshes)">
+          Full-Resolution Picking
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default LevelOfDetailPanel;
@@ -0,0 +1,65 @@
+import React from 'react';
+import * as THREE from 'three';
+import { MassProperties, SupportPolygon, getStabilityMargin } from '../utils/massProperties';
+
+interface MassPropertiesPanelProps {
+  massProperties: MassProperties;
+  supportPolygon: SupportPolygon | null;
+  showCom: boolean;
+  setShowCom: (v: boolean) => void;
+  showSupportPolygon: boolean;
+  setShowSupportPolygon: (v: boolean) => void;
+}
+
+const MassPropertiesPanel: React.FC<MassPropertiesPanelProps> = (props) => {
+  const { massProperties, supportPolygon, showCom, setShowCom, showSupportPolygon, setShowSupportPolygon } = props;
+  const { totalMass, com, massLinkCount, linkCount } = massProperties;
+
+  const margin = com && supportPolygon
+    ? getStabilityMargin(new THREE.Vector2(com.x, com.y), supportPolygon.points)
+    : null;
+
+  const rowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', fontSize: '0.9rem' };
+  const valStyle: React.CSSProperties = { fontFamily: 'Consolas, monospace', color: '#eee' };
+
+  return (
+    <div className="display-options-container">
+      <h3>Mass Properties</h3>
+      <div style={rowStyle}><span>Total Mass</span><span style={valStyle}>{totalMass.toFixed(3)} kg</span></div>
+      <div style={rowStyle}><span>Links with Mass</span><span style={valStyle}>{massLinkCount} / {linkCount}</span></div>
+      {com ? (
+        <div style={rowStyle}>
+          <span>COM</span>
+          <span style={valStyle}>{com.x.toFixed(3)}, {com.y.toFixed(3)}, {com.z.toFixed(3)}</span>
+        </div>
+      ) : (
+        <div style={{ color: '#888', fontSize: '0.85rem' }}>No link defines a positive mass.</div>
+      )}
+      {showSupportPolygon && supportPolygon && (
+        <>
+          <div style={rowStyle}><span>Contact Links</span><span style={valStyle}>{supportPolygon.contactLinks.length}</span></div>
+          {margin !== null ? (
+            <div style={rowStyle}>
+              <span>Static Stability</span>
+              <span style={{ ...valStyle, color: margin >= 0 ? '#66bb6a' : '#ef5350' }}>
+                {margin >= 0 ? 'Stable' : 'Unstable'} ({margin.toFixed(3)} m)
+              </span>
+            </div>
+          ) : (
+            <div style={{ color: '#888', fontSize: '0.85rem' }}>Support polygon is degenerate.</div>
+          )}
+        </>
+      )}
+      <div className="option-item" style={{ marginTop: '0.5rem' }}>
+        <input type="checkbox" id="showCom" checked={showCom} onChange={(e) => setShowCom(e.target.checked)} />
+        <label htmlFor="showCom">Show Center of Mass</label>
+      </div>
+      <div className="option-item">
+        <input type="checkbox" id="showSupportPolygon" checked={showSupportPolygon} onChange={(e) => setShowSupportPolygon(e.target.checked)} />
+        <label htmlFor="showSupportPolygon">Show Support Polygon</label>
+      </div>
+    </div>
+  );
+};
+
+export default MassPropertiesPanel;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { PackageMapping, PackageMappings } from '../utils/packageMapping';
+
+interface PackagesDialogProps {
+  // package:// names referenced by the model
+  packageNames: string[];
+  mappings: PackageMappings;
+  // Mappings found in package.xml files of the dropped folder
+  detected: PackageMappings;
+  // Folders of the dropped tree; empty for samples
+  folders: string[];
+  onApply: (mappings: PackageMappings) => void;
+  onClose: () => void;
+}
+
+type MappingType = PackageMapping['type'] | 'default';
+
+const PackagesDialog: React.FC<PackagesDialogProps> = ({ packageNames, mappings, detected, folders, onApply, onClose }) => {
+  const [drafts, setDrafts] = useState<PackageMappings>(mappings);
+
+  // Mapped packages stay listed even if the current model no longer references them
+  const names = Array.from(new Set([...packageNames, ...Object.keys(drafts)])).sort();
+
+  const setType = (name: string, type: MappingType) => {
+    const next = { ...drafts };
+    if (type === 'default') delete next[name];
+    else next[name] = { type, target: type === 'folder' ? (detected[name]?.target ?? folders[0] ?? '') : '' };
+    setDrafts(next);
+  };
+
+  const setTarget = (name: string, target: string) => {
+    setDrafts({ ...drafts, [name]: { ...drafts[name], target } });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="info-popup-header">
+          <h4>Packages</h4>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+        <p className="modal-hint">
+          Map each <code>package://</code> name to a folder of the dropped tree or to a URL prefix.
+          Unmapped packages are looked up next to the model.
+        </p>
+        {names.length === 0 ? (
+          <div style={{ color: '#888', fontSize: '0.9rem' }}>The model does not reference any package.</div>
+        ) : (
+          <table className="packages-table">
+            <thead>
+              <tr><th>Package</th><th>Source</th><th>Target</th></tr>
+            </thead>
+            <tbody>
+              {names.map(name => {
+                const mapping = drafts[name];
+                const isDetected = mapping && detected[name] && detected[name].target === mapping.target && mapping.type === 'folder';
+                return (
+                  <tr key={name}>
+                    <td>
+                      {name}
+                      {isDetected && <span className="tag" style={{ marginLeft: 6 }} title="Found in package.xml">auto</span>}
+                    </td>
+                    <td>
+                      <select value={mapping ? mapping.type : 'default'} onChange={(e) => setType(name, e.target.value as MappingType)}>
+                        <option value="default">Default</option>
+                        {folders.length > 0 && <option value="folder">Folder</option>}
+                        <option value="url">URL</option>
+                      </select>
+                    </td>
+                    <td>
+                      {mapping?.type === 'folder' && (
+                        <select value={mapping.target} onChange={(e) => setTarget(name, e.target.value)}>
+                          <option value="">(root)</option>
+                          {folders.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                      )}
+                      {mapping?.type === 'url' && (
+                        <input
+                          type="text"
+                          value={mapping.target}
+                          placeholder="https://example.com/my_robot"
+                          onChange={(e) => setTarget(name, e.target.value)}
+                        />
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <div className="modal-actions">
+          <button onClick={() => setDrafts(detected)} disabled={Object.keys(detected).length === 0}>Auto-detect</button>
+          <span style={{ flex: 1 }} />
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={() => onApply(drafts)}>Apply</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PackagesDialog;
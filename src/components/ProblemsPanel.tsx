@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { ValidationIssue } from '../utils/urdfValidator';
+
+interface ProblemsPanelProps {
+  issues: ValidationIssue[];
+  // Line numbers refer to the generated URDF when the source was a xacro or another format
+  isExpanded: boolean;
+  onSelect: (target: NonNullable<ValidationIssue['target']>) => void;
+}
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ issues, isExpanded, onSelect }) => {
+  const [collapsed, setCollapsed] = useState(false);
+
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div className="problems-panel">
+      <div className="problems-header" onClick={() => setCollapsed(!collapsed)}>
+        <span>{collapsed ? '▶' : '▼'} Problems</span>
+        <span>
+          {errorCount > 0 && <span className="problem-count error">{errorCount}</span>}
+          {warningCount > 0 && <span className="problem-count warning">{warningCount}</span>}
+        </span>
+      </div>
+      {!collapsed && (
+        <>
+          {isExpanded && <div className="problems-note">Line numbers refer to the generated URDF.</div>}
+          <ul className="problems-list">
+            {issues.map((issue, i) => (
+              <li
+                key={i}
+                className={`problem-item ${issue.severity} ${issue.target ? 'clickable' : ''}`}
+                onClick={() => issue.target && onSelect(issue.target)}
+                title={issue.target ? `Select ${issue.target.type} "${issue.target.name}"` : undefined}
+              >
+                <span className="problem-icon">{issue.severity === 'error' ? '●' : '▲'}</span>
+                <span className="problem-line">{issue.line !== null ? `L${issue.line}` : '—'}</span>
+                <span className="problem-message">{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { SampleInfo, matchesQuery } from '../utils/samples';
+
+interface SampleGalleryProps {
+  samples: SampleInfo[];
+  currentPath: string;
+  onSelect: (path: string) => void;
+}
+
+// "16 links · 15 joints · 12 DOF · 30.47 kg", leaving out what the manifest does not know
+const describeCounts = (sample: SampleInfo) => [
+  sample.links !== null ? `${sample.links} links` : null,
+  sample.joints !== null ? `${sample.joints} joints` : null,
+  sample.dof !== null ? `${sample.dof} DOF` : null,
+  sample.mass !== null ? `${Number(sample.mass.toFixed(2))} kg` : null,
+].filter(Boolean).join(' · ');
+
+const SampleGallery: React.FC<SampleGalleryProps> = ({ samples, currentPath, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const visible = samples.filter(s => matchesQuery(s, query));
+
+  return (
+    <div className="sample-gallery">
+      <input
+        type="search"
+        className="sample-search"
+        placeholder={`Search ${samples.length} samples…`}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      <div className="sample-list">
+        {visible.map(sample => {
+          const counts = describeCounts(sample);
+          return (
+            <div
+              key={sample.path}
+              className={`sample-card ${sample.path === currentPath ? 'active' : ''}`}
+              role="button"
+              tabIndex={0}
+              title={sample.path}
+              onClick={() => onSelect(sample.path)}
+              onKeyDown={(e) => { if (e.key === 'Enter') onSelect(sample.path); }}
+            >
+              {sample.thumbnail
+                ? <img className="sample-thumbnail" src={sample.thumbnail} alt="" loading="lazy" />
+                : <div className="sample-thumbnail placeholder">{sample.format}</div>}
+              <div className="sample-details">
+                <div className="sample-name">{sample.name ?? sample.path.split('/').pop()}</div>
+                <div className="sample-path">{sample.path}</div>
+                {counts && <div className="sample-counts">{counts}</div>}
+                <div className="sample-tags">
+                  <span className="sample-tag">{sample.format}</span>
+                  {sample.meshFormats.map(f => <span key={f} className="sample-tag mesh">{f}</span>)}
+                  {sample.license && (
+                    <a
+                      className="sample-tag license"
+                      href={sample.license}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      license
+                    </a>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {visible.length === 0 && <div className="sample-empty">No samples match "{query}"</div>}
+      </div>
+    </div>
+  );
+};
+
+export default SampleGallery;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { GizmoMode } from './Viewer';
+import { LOADED_ROBOT_ID, RobotOrigin, RobotPlacement, SceneRobot } from '../utils/sceneRobots';
+
+interface ScenePanelProps {
+  // File name of the model opened last; null once it has been kept or closed
+  loadedLabel: string | null;
+  loadedPlacement: RobotPlacement;
+  keptRobots: SceneRobot[];
+  activeRobotId: number;
+  onActivate: (id: number) => void;
+  onPlacementChange: (id: number, placement: RobotPlacement) => void;
+  onPrefixChange: (id: number, prefix: string) => void;
+  // Moves the loaded model into the scene, so the next model opened is added next to it
+  onKeep: (prefix: string) => void;
+  canKeep: boolean;
+  onRemove: (id: number) => void;
+  gizmoMode: GizmoMode;
+  setGizmoMode: (mode: GizmoMode) => void;
+}
+
+// Commits on Enter or blur, so a half-typed value never moves or renames anything
+const DraftInput: React.FC<{ value: string; onCommit: (value: string) => void; type?: string; title?: string; placeholder?: string }> = ({ value, onCommit, type = 'text', title, placeholder }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => { setDraft(value); }, [value]);
+  return (
+    <input
+      type={type}
+      step="any"
+      value={draft}
+      title={title}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(draft)}
+      onKeyDown={(e) => { if (e.key === 'Enter') onCommit(draft); }}
+    />
+  );
+};
+
+const round = (v: number, digits: number) => String(Number(v.toFixed(digits)));
+
+const ScenePanel: React.FC<ScenePanelProps> = (props) => {
+  const { loadedLabel, loadedPlacement, keptRobots, activeRobotId, onActivate, onPlacementChange, onPrefixChange, onKeep, canKeep, onRemove, gizmoMode, setGizmoMode } = props;
+  const [keepPrefix, setKeepPrefix] = useState('');
+
+  const active = activeRobotId === LOADED_ROBOT_ID
+    ? (loadedLabel ? loadedPlacement : undefined)
+    : keptRobots.find(r => r.id === activeRobotId);
+
+  // Positions are edited in metres, angles in degrees
+  const setOrigin = (key: keyof RobotOrigin, axis: number, text: string) => {
+    const value = parseFloat(text);
+    if (!active || !Number.isFinite(value)) return;
+    const origin: RobotOrigin = { xyz: [...active.origin.xyz], rpy: [...active.origin.rpy] };
+    origin[key][axis] = key === 'rpy' ? (value * Math.PI) / 180 : value;
+    onPlacementChange(activeRobotId, { ...active, origin });
+  };
+
+  const renderRow = (id: number, label: string, placement: RobotPlacement, extra: React.ReactNode) => (
+    <div key={id} className={`scene-robot ${id === activeRobotId ? 'active' : ''}`} onClick={() => onActivate(id)}>
+      <input
+        type="checkbox"
+        checked={placement.visible}
+        title="Visible"
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => onPlacementChange(id, { ...placement, visible: e.target.checked })}
+      />
+      <span className="scene-robot-label" title={label}>{label}</span>
+      {extra}
+    </div>
+  );
+
+  return (
+    <div className="display-options-container">
+      <h3>Scene</h3>
+      <div className="scene-robot-list">
+        {keptRobots.map(r => renderRow(r.id, r.label, r, (
+          <>
+            <span onClick={(e) => e.stopPropagation()}>
+              <DraftInput value={r.prefix} placeholder="prefix" title="Prefix of the link and joint names" onCommit={(v) => onPrefixChange(r.id, v.trim())} />
+            </span>
+            <button className="close-btn" title="Remove from the scene" onClick={(e) => { e.stopPropagation(); onRemove(r.id); }}>×</button>
+          </>
+        )))}
+        {loadedLabel && renderRow(LOADED_ROBOT_ID, loadedLabel, loadedPlacement, (
+          <span className="scene-robot-note">opened</span>
+        ))}
+      </div>
+      {loadedLabel && (
+        <div className="option-item scene-keep">
+          <input type="text" value={keepPrefix} placeholder="prefix" title="Prefix of the link and joint names" onChange={(e) => setKeepPrefix(e.target.value)} />
+          <button
+            disabled={!canKeep}
+            onClick={() => { onKeep(keepPrefix.trim()); setKeepPrefix(''); }}
+            title="Keep this robot in the scene; the next model opened is added next to it"
+          >
+            Keep in Scene
+          </button>
+        </div>
+      )}
+      {keptRobots.length > 0 && !loadedLabel && (
+        <div style={{ color: '#888', fontSize: '0.85rem', marginBottom: '0.5rem' }}>Open another model to add it to the scene.</div>
+      )}
+      {active && (
+        <>
+          <div className="scene-origin">
+            <span>xyz (m)</span>
+            {active.origin.xyz.map((v, i) => (
+              <DraftInput key={`xyz${i}`} type="number" value={round(v, 4)} onCommit={(t) => setOrigin('xyz', i, t)} />
+            ))}
+            <span>rpy (°)</span>
+            {active.origin.rpy.map((v, i) => (
+              <DraftInput key={`rpy${i}`} type="number" value={round((v * 180) / Math.PI, 2)} onCommit={(t) => setOrigin('rpy', i, t)} />
+            ))}
+          </div>
+          <div className="option-item">
+            <label style={{ marginRight: '0.5rem' }}>Gizmo</label>
+            <select value={gizmoMode ?? ''} onChange={(e) => setGizmoMode((e.target.value || null) as GizmoMode)}>
+              <option value="">Off</option>
+              <option value="translate">Move</option>
+              <option value="rotate">Rotate</option>
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScenePanel;
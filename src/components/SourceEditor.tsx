@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  XmlError, enclosingElementName, findElementOffset, findXmlError, highlightXml, lineOfOffset, offsetOfLine,
+} from '../utils/xmlSource';
+
+interface SourceEditorProps {
+  // Entry file first, then the files it includes, as last read
+  files: Map<string, string>;
+  selectedLinkName: string | null;
+  // Called once the text of a file stops changing and is well-formed
+  onEdit: (path: string, content: string) => void;
+  onJointCursor: (name: string) => void;
+  onClose: () => void;
+}
+
+const EDIT_DEBOUNCE_MS = 600;
+// Must match the line-height of .source-editor-body in style.css
+const LINE_HEIGHT = 18;
+
+const SourceEditor: React.FC<SourceEditorProps> = ({ files, selectedLinkName, onEdit, onJointCursor, onClose }) => {
+  const paths = Array.from(files.keys());
+  const [activePath, setActivePath] = useState(paths[0]);
+  // Texts that differ from `files`: typed but not yet parsed, or not well-formed
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [xmlError, setXmlError] = useState<XmlError | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLPreElement>(null);
+  const debounceRef = useRef<ReturnType<typeof setTimeout>>();
+  // Last text handed to onEdit per file, to tell our own reparse from a new model
+  const sentRef = useRef<Record<string, string>>({});
+  const lastJointRef = useRef<string | null>(null);
+  const pendingRevealRef = useRef<number | null>(null);
+
+  const current = files.has(activePath) ? activePath : paths[0];
+  const text = drafts[current] ?? files.get(current) ?? '';
+
+  // A new model (or a reload from disk) replaces the texts; drafts typed after the last edit survive
+  useEffect(() => {
+    setDrafts(prev => {
+      const next: Record<string, string> = {};
+      Object.entries(prev).forEach(([path, draft]) => {
+        if (files.get(path) === sentRef.current[path] && draft !== files.get(path)) next[path] = draft;
+      });
+      return next;
+    });
+  }, [files]);
+
+  useEffect(() => () => clearTimeout(debounceRef.current), []);
+
+  const highlighted = useMemo(() => highlightXml(text), [text]);
+  const lineCount = useMemo(() => text.split('\n').length, [text]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop;
+  };
+
+  const reveal = (offset: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.setSelectionRange(offset, offset);
+    textarea.scrollTop = Math.max(0, (lineOfOffset(textarea.value, offset) - 1) * LINE_HEIGHT - textarea.clientHeight / 3);
+    syncScroll();
+  };
+
+  // Selecting a link elsewhere scrolls to its <link> element, in whichever file defines it
+  useEffect(() => {
+    if (!selectedLinkName) return;
+    const path = [current, ...paths].find(p => findElementOffset(drafts[p] ?? files.get(p) ?? '', 'link', selectedLinkName) !== -1);
+    if (!path) return;
+    const offset = findElementOffset(drafts[path] ?? files.get(path)!, 'link', selectedLinkName);
+    if (path === current) reveal(offset);
+    else {
+      pendingRevealRef.current = offset;
+      setActivePath(path);
+    }
+    // Only a new selection should move the view, not typing
+  }, [selectedLinkName]);
+
+  useEffect(() => {
+    if (pendingRevealRef.current === null) return;
+    reveal(pendingRevealRef.current);
+    pendingRevealRef.current = null;
+  }, [current]);
+
+  const handleChange = (value: string) => {
+    const path = current;
+    setDrafts(prev => ({ ...prev, [path]: value }));
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      const error = findXmlError(value);
+      setXmlError(error);
+      if (error) return;
+      sentRef.current[path] = value;
+      onEdit(path, value);
+    }, EDIT_DEBOUNCE_MS);
+  };
+
+  // Moving the cursor into a <joint> selects that joint
+  const handleCursor = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const name = enclosingElementName(textarea.value, textarea.selectionStart, 'joint');
+    if (name && name !== lastJointRef.current && !name.includes('${')) onJointCursor(name);
+    lastJointRef.current = name;
+  };
+
+  const switchFile = (path: string) => {
+    setActivePath(path);
+    setXmlError(null);
+    lastJointRef.current = null;
+  };
+
+  const jumpToError = () => {
+    if (xmlError?.line) {
+      textareaRef.current?.focus();
+      reveal(offsetOfLine(text, xmlError.line));
+    }
+  };
+
+  return (
+    <div className="source-editor">
+      <div className="source-editor-header">
+        <select value={current} onChange={(e) => switchFile(e.target.value)} title={current}>
+          {paths.map((p, i) => (
+            <option key={p} value={p}>
+              {i === 0 ? '' : '↳ '}{p}{drafts[p] !== undefined ? ' •' : ''}
+            </option>
+          ))}
+        </select>
+        <button className="close-btn" onClick={onClose} title="Close editor">×</button>
+      </div>
+      <div className="source-editor-body">
+        <pre className="source-editor-gutter" ref={gutterRef}>
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i} className={xmlError?.line === i + 1 ? 'error-line' : ''}>{i + 1}</div>
+          ))}
+        </pre>
+        <div className="source-editor-code">
+          <pre className="source-editor-highlight" ref={highlightRef} aria-hidden="true">
+            {/* The trailing newline keeps the last line visible when the text ends with one */}
+            <code dangerouslySetInnerHTML={{ __html: highlighted + '\n' }} />
+          </pre>
+          <textarea
+            ref={textareaRef}
+            value={text}
+            spellCheck={false}
+            wrap="off"
+            onChange={(e) => handleChange(e.target.value)}
+            onScroll={syncScroll}
+            onSelect={handleCursor}
+          />
+        </div>
+      </div>
+      {xmlError && (
+        <div className="source-editor-error" onClick={jumpToError}>
+          {xmlError.line ? `Line ${xmlError.line}: ` : ''}{xmlError.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceEditor;
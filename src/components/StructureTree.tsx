@@ -9,6 +9,10 @@ interface StructureTreeProps {
   isCtrlPressed: boolean;
   selectedLinkName: string | null;
   selectedJointName: string | null;
+  // Links with a mesh that failed to load
+  failedLinkNames?: Set<string>;
+  // Links and joints that differ from the version being compared against
+  changedNames?: Set<string>;
 }
 
 // --- Data Structures ---
@@ -113,7 +117,7 @@ const JointIcon = ({ x, y }: { x: number, y: number }) => (
 );
 
 const StructureTree: React.FC<StructureTreeProps> = ({ 
-    robot, onSelect, isCtrlPressed, selectedLinkName, selectedJointName 
+    robot, onSelect, isCtrlPressed, selectedLinkName, selectedJointName, failedLinkNames, changedNames 
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [viewState, setViewState] = useState({ x: 0, y: 0, scale: 1 });
@@ -249,7 +253,9 @@ const StructureTree: React.FC<StructureTreeProps> = ({
         ? node.name === selectedJointName 
         : node.name === selectedLinkName;
 
-    const strokeColor = isSelected ? '#ffffff' : (isJointNode ? '#66bb6a' : '#42a5f5');
+    const hasFailedAsset = !isJointNode && !!failedLinkNames?.has(node.name);
+    const isChanged = !!changedNames?.has(node.name);
+    const strokeColor = isSelected ? '#ffffff' : (hasFailedAsset ? '#ef5350' : (isJointNode ? '#66bb6a' : '#42a5f5'));
     const fillColor = isJointNode ? 'rgba(27, 94, 32, 0.85)' : 'rgba(13, 71, 161, 0.85)';
     const iconColor = isJointNode ? '#66bb6a' : '#42a5f5';
 
@@ -303,6 +309,20 @@ const StructureTree: React.FC<StructureTreeProps> = ({
             >
                 {node.name.length > 15 ? node.name.substring(0, 14) + '..' : node.name}
             </text>
+            {isChanged && (
+                <g>
+                    <title>Changed from the compared version</title>
+                    <circle cx="2" cy="2" r="7" fill="#ffb300" />
+                    <text x="2" y="6" textAnchor="middle" fill="#333" fontSize="10" fontWeight="bold">Δ</text>
+                </g>
+            )}
+            {hasFailedAsset && (
+                <g>
+                    <title>A mesh of this link failed to load</title>
+                    <circle cx={NODE_WIDTH - 2} cy="2" r="7" fill="#ef5350" />
+                    <text x={NODE_WIDTH - 2} y="6" textAnchor="middle" fill="white" fontSize="10" fontWeight="bold">!</text>
+                </g>
+            )}
             {node.hasChildren && (
                 <>
                     <circle cx={NODE_WIDTH - 15} cy={NODE_HEIGHT / 2} r="7" fill="rgba(0,0,0,0.4)" />
@@ -355,6 +375,12 @@ const StructureTree: React.FC<StructureTreeProps> = ({
                 <div className="v-legend">
                     <div className="v-legend-item"><span className="v-dot joint"></span> Joint</div>
                     <div className="v-legend-item"><span className="v-dot link"></span> Link</div>
+                    {failedLinkNames && failedLinkNames.size > 0 && (
+                        <div className="v-legend-item"><span className="v-dot failed">!</span> Missing Mesh</div>
+                    )}
+                    {changedNames && changedNames.size > 0 && (
+                        <div className="v-legend-item"><span className="v-dot changed">Δ</span> Changed</div>
+                    )}
                 </div>
                 <div className="v-hint">Ctrl: Move 3D<br/>L-Click: Select<br/>R-Click: Fold<br/>T: Toggle</div>
             </div>
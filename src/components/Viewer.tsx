@@ -1,10 +1,31 @@
 import React, { useRef, useEffect } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
 import { URDFRobot, URDFJoint, URDFLink } from 'urdf-loader';
+import { InertialData, getInertialOriginMatrix, getPrincipalInertia, getEquivalentBoxSize } from '../utils/inertia';
+import { getLinkInertial, isScalarJoint } from '../utils/urdfDescription';
+import { CameraView } from '../utils/deepLink';
+import { updateLod } from '../utils/meshLod';
+
+export type CollisionMode = 'visual' | 'collision' | 'both';
+// How the gizmo on the active robot's root moves it; null hides the gizmo
+export type GizmoMode = 'translate' | 'rotate' | null;
+
+// Filled in by the Viewer so the parent can read and restore the camera (deep links)
+export interface CameraControl {
+  getView: () => CameraView;
+  setView: (view: CameraView) => void;
+}
 
 interface ViewerProps {
+  // The active robot: selection, dragging, measurement and the gizmo work on it
   robot: URDFRobot | null;
+  // Every robot in the scene, the active one included
+  robots: URDFRobot[];
+  gizmoMode: GizmoMode;
+  // Called when the gizmo has moved a robot's root
+  onRobotMoved: (robot: URDFRobot) => void;
   isCtrlPressed: boolean;
   selectedLinkName: string | null;
   selectedJoint: URDFJoint | null;
@@ -12,8 +33,10 @@ interface ViewerProps {
   showGrid: boolean;
   showLinkAxes: boolean;
   showJointAxes: boolean;
+  showInertia: boolean;
   showShadows: boolean;
   wireframe: boolean;
+  collisionMode: CollisionMode;
   onSelectionUpdate: (name: string | null, matrix: THREE.Matrix4 | null, parentMatrix: THREE.Matrix4 | null) => void;
   onJointSelect: (joint: URDFJoint) => void;
   onJointChange: (name: string, value: number) => void;
@@ -22,10 +45,71 @@ interface ViewerProps {
   measurementPoints: THREE.Vector3[];
   onMeasurementClick: (point: THREE.Vector3) => void;
   onMeasurementRemove: (index: number) => void;
+  centerOfMass: THREE.Vector3 | null;
+  groundZ: number;
+  supportPolygon: THREE.Vector2[] | null;
+  cameraControlRef?: React.MutableRefObject<CameraControl | null>;
 }
 
+// Raycaster ignores `visible`, so hits on hidden visuals/colliders have to be filtered out by hand
+const isRendered = (obj: THREE.Object3D | null): boolean => {
+  while (obj) {
+    if (!obj.visible) return false;
+    obj = obj.parent;
+  }
+  return true;
+};
+
+// First mesh of a link that is currently drawn (visual or collision, depending on the display mode)
+const getDisplayedMesh = (link: THREE.Object3D): THREE.Mesh | null => {
+  let found: THREE.Mesh | null = null;
+  link.traverse(c => {
+    if (!found && (c as THREE.Mesh).isMesh && !c.name.includes('helper') && isRendered(c)) found = c as THREE.Mesh;
+  });
+  return found as THREE.Mesh | null;
+};
+
+// COM marker + equivalent inertia box, placed in the link's inertial origin frame
+const createInertiaHelper = (inertial: InertialData): THREE.Group => {
+  const group = new THREE.Group();
+  group.name = 'inertia-helper-link';
+  getInertialOriginMatrix(inertial).decompose(group.position, group.quaternion, group.scale);
+
+  const principal = getPrincipalInertia(inertial.inertia);
+  const boxSize = getEquivalentBoxSize(inertial.mass, principal.moments);
+
+  // Red marker flags a link whose mass/inertia cannot describe a real body
+  const comMarker = new THREE.Mesh(
+    new THREE.SphereGeometry(0.012, 16, 16),
+    new THREE.MeshBasicMaterial({ color: boxSize ? 0x00e676 : 0xff1744, depthTest: false, transparent: true, opacity: 0.9 })
+  );
+  comMarker.name = 'inertia-helper';
+  comMarker.renderOrder = 997;
+  group.add(comMarker);
+
+  if (boxSize) {
+    const boxGeometry = new THREE.BoxGeometry(1, 1, 1);
+    const box = new THREE.Mesh(
+      boxGeometry,
+      new THREE.MeshBasicMaterial({ color: 0x29b6f6, transparent: true, opacity: 0.2, depthWrite: false })
+    );
+    box.name = 'inertia-helper';
+    box.add(new THREE.LineSegments(
+      new THREE.EdgesGeometry(boxGeometry),
+      new THREE.LineBasicMaterial({ color: 0x29b6f6, transparent: true, opacity: 0.8 })
+    ));
+    box.quaternion.setFromRotationMatrix(principal.rotation);
+    box.scale.copy(boxSize).max(new THREE.Vector3(1e-4, 1e-4, 1e-4));
+    group.add(box);
+  }
+
+  // Purely informative: never intercept selection, measurement or dragging
+  group.traverse(c => { c.raycast = () => {}; });
+  return group;
+};
+
 const Viewer: React.FC<ViewerProps> = (props) => {
-  const { robot, isCtrlPressed, selectedLinkName, selectedJoint, showWorldAxes, showGrid, showLinkAxes, showJointAxes, showShadows, wireframe, onSelectionUpdate, onJointSelect, onJointChange, onMatrixUpdate, isMeasurementMode, measurementPoints, onMeasurementClick, onMeasurementRemove } = props;
+  const { robot, robots, gizmoMode, onRobotMoved, isCtrlPressed, selectedLinkName, selectedJoint, showWorldAxes, showGrid, showLinkAxes, showJointAxes, showInertia, showShadows, wireframe, collisionMode, onSelectionUpdate, onJointSelect, onJointChange, onMatrixUpdate, isMeasurementMode, measurementPoints, onMeasurementClick, onMeasurementRemove, centerOfMass, groundZ, supportPolygon, cameraControlRef } = props;
   const mountRef = useRef<HTMLDivElement>(null);
 
   // Refs for three.js objects
@@ -35,10 +119,12 @@ const Viewer: React.FC<ViewerProps> = (props) => {
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
+  const gizmoRef = useRef<TransformControls | null>(null);
   
   // Refs for selection and highlighting (LINK)
   const selectedLinkRef = useRef<URDFLink | null>(null);
   const selectedLinkParentRef = useRef<URDFLink | null>(null);
+  const highlightedLinkMeshRef = useRef<THREE.Mesh | null>(null);
   const originalLinkMaterialRef = useRef<THREE.Material | THREE.Material[] | null>(null);
   const linkHighlightMaterialRef = useRef(new THREE.MeshBasicMaterial({ 
     color: 0xffff00, 
@@ -86,11 +172,14 @@ const Viewer: React.FC<ViewerProps> = (props) => {
   const onJointChangeRef = useRef(onJointChange);
   const isCtrlPressedRef = useRef(isCtrlPressed);
   const robotRef = useRef<URDFRobot | null>(robot);
+  const robotsRef = useRef<URDFRobot[]>(robots);
+  const onRobotMovedRef = useRef(onRobotMoved);
   const isMeasurementModeRef = useRef(isMeasurementMode);
   const onMeasurementClickRef = useRef(onMeasurementClick);
   const onMeasurementRemoveRef = useRef(onMeasurementRemove);
   const measurementPointsRef = useRef(measurementPoints);
   const measurementGroupRef = useRef<THREE.Group | null>(null);
+  const massGroupRef = useRef<THREE.Group | null>(null);
   
   useEffect(() => { onMatrixUpdateRef.current = onMatrixUpdate; }, [onMatrixUpdate]);
   useEffect(() => { onSelectionUpdateRef.current = onSelectionUpdate; }, [onSelectionUpdate]);
@@ -98,20 +187,20 @@ const Viewer: React.FC<ViewerProps> = (props) => {
   useEffect(() => { onJointChangeRef.current = onJointChange; }, [onJointChange]);
   useEffect(() => { isCtrlPressedRef.current = isCtrlPressed; }, [isCtrlPressed]);
   useEffect(() => { robotRef.current = robot; }, [robot]);
+  useEffect(() => { robotsRef.current = robots; }, [robots]);
+  useEffect(() => { onRobotMovedRef.current = onRobotMoved; }, [onRobotMoved]);
   useEffect(() => { isMeasurementModeRef.current = isMeasurementMode; }, [isMeasurementMode]);
   useEffect(() => { onMeasurementClickRef.current = onMeasurementClick; }, [onMeasurementClick]);
   useEffect(() => { onMeasurementRemoveRef.current = onMeasurementRemove; }, [onMeasurementRemove]);
   useEffect(() => { measurementPointsRef.current = measurementPoints; }, [measurementPoints]);
 
   const unhighlightLink = () => {
-    if (selectedLinkRef.current && originalLinkMaterialRef.current) {
-      const mesh = selectedLinkRef.current.getObjectByProperty('isMesh', true) as THREE.Mesh;
-      if (mesh) {
-        mesh.material = originalLinkMaterialRef.current as THREE.Material;
-      }
+    if (highlightedLinkMeshRef.current && originalLinkMaterialRef.current) {
+      highlightedLinkMeshRef.current.material = originalLinkMaterialRef.current;
     }
     selectedLinkRef.current = null;
     selectedLinkParentRef.current = null;
+    highlightedLinkMeshRef.current = null;
     originalLinkMaterialRef.current = null;
   };
 
@@ -160,10 +249,11 @@ const Viewer: React.FC<ViewerProps> = (props) => {
 
           if (foundLink) {
               const link = foundLink as URDFLink;
-              const mesh = link.getObjectByProperty('isMesh', true) as THREE.Mesh;
+              const mesh = getDisplayedMesh(link);
               
               if (mesh) {
                   selectedLinkRef.current = link;
+                  highlightedLinkMeshRef.current = mesh;
                   originalLinkMaterialRef.current = mesh.material;
                   mesh.material = linkHighlightMaterialRef.current;
                   
@@ -237,6 +327,27 @@ const Viewer: React.FC<ViewerProps> = (props) => {
     controls.enableDamping = true;
     controlsRef.current = controls;
 
+    // Moves the active robot's root; orbiting pauses while it is dragged
+    const gizmo = new TransformControls(camera, renderer.domElement);
+    gizmo.setSpace('world');
+    gizmo.addEventListener('dragging-changed', (e) => {
+        controls.enabled = !e.value;
+        if (!e.value && gizmo.object) onRobotMovedRef.current(gizmo.object as URDFRobot);
+    });
+    scene.add(gizmo);
+    gizmoRef.current = gizmo;
+
+    if (cameraControlRef) {
+        cameraControlRef.current = {
+            getView: () => ({ position: camera.position.toArray(), target: controls.target.toArray() }),
+            setView: (view) => {
+                camera.position.fromArray(view.position);
+                controls.target.fromArray(view.target);
+                controls.update();
+            },
+        };
+    }
+
     // LIGHTING CONFIGURATION FOR BETTER SHADOWS
     // 1. Ambient Light: Reduced intensity to make shadows darker
     scene.add(new THREE.AmbientLight(0xffffff, 0.4)); 
@@ -277,6 +388,12 @@ const Viewer: React.FC<ViewerProps> = (props) => {
     scene.add(measurementGroup);
     measurementGroupRef.current = measurementGroup;
 
+    // Mass Properties Group (COM, ground projection, support polygon)
+    const massGroup = new THREE.Group();
+    massGroup.name = 'mass-group';
+    scene.add(massGroup);
+    massGroupRef.current = massGroup;
+
     const raycaster = new THREE.Raycaster();
     const mouse = new THREE.Vector2();
     
@@ -302,6 +419,8 @@ const Viewer: React.FC<ViewerProps> = (props) => {
         );
       }
 
+      // Simplified meshes switch level with distance; world matrices are the previous frame's, close enough
+      robotsRef.current.forEach(r => updateLod(r, camera));
       renderer.render(scene, camera);
     };
     animate();
@@ -334,7 +453,7 @@ const Viewer: React.FC<ViewerProps> = (props) => {
         const y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
         
         raycaster.setFromCamera(new THREE.Vector2(x, y), camera);
-        const intersects = raycaster.intersectObject(robotRef.current, true);
+        const intersects = raycaster.intersectObject(robotRef.current, true).filter(i => isRendered(i.object));
 
         // Search through ALL intersects to find the first valid Link
         for (const intersect of intersects) {
@@ -367,6 +486,9 @@ const Viewer: React.FC<ViewerProps> = (props) => {
         // If NOT in measurement mode, block Ctrl (keep legacy behavior for dragging)
         if (isCtrlPressedRef.current && !isMeasurementModeRef.current) return;
 
+        // The gizmo handles clicks on its handles itself
+        if (gizmo.object && gizmo.axis) return;
+
         if (!mountRef.current || !camera || !robotRef.current) return;
 
         const rect = mountRef.current.getBoundingClientRect();
@@ -374,7 +496,7 @@ const Viewer: React.FC<ViewerProps> = (props) => {
         const ndcY = -((event.clientY - rect.top) / rect.height) * 2 + 1;
         
         raycaster.setFromCamera(new THREE.Vector2(ndcX, ndcY), camera);
-        const intersects = raycaster.intersectObject(robotRef.current, true);
+        const intersects = raycaster.intersectObject(robotRef.current, true).filter(i => isRendered(i.object));
 
         // --- MEASUREMENT MODE ---
         if (isMeasurementModeRef.current) {
@@ -426,8 +548,8 @@ const Viewer: React.FC<ViewerProps> = (props) => {
 
         if (link && link.parent && (link.parent as any).isURDFJoint && intersectPoint) {
             const joint = link.parent as URDFJoint;
-            if (joint.jointType !== 'fixed') {
-                const mesh = link.getObjectByProperty('isMesh', true) as THREE.Mesh;
+            if (isScalarJoint(joint)) {
+                const mesh = getDisplayedMesh(link);
                 let originalMaterial = null;
                 if (mesh) {
                     originalMaterial = mesh.material;
@@ -619,7 +741,7 @@ const Viewer: React.FC<ViewerProps> = (props) => {
       }
 
       // Raycast ONLY against the robot model to avoid hitting the grid/axes
-      const intersects = raycaster.intersectObject(robotRef.current, true);
+      const intersects = raycaster.intersectObject(robotRef.current, true).filter(i => isRendered(i.object));
       
       // --- CTRL KEY LOGIC: Joint Selection ---
       if (isCtrlPressedRef.current) {
@@ -628,7 +750,7 @@ const Viewer: React.FC<ViewerProps> = (props) => {
               const helperIntersect = intersects.find(i => i.object.name === 'joint-helper');
               if (helperIntersect) {
                   const joint = helperIntersect.object.parent as URDFJoint;
-                  if (joint && (joint as any).isURDFJoint && joint.jointType !== 'fixed') {
+                  if (joint && (joint as any).isURDFJoint && isScalarJoint(joint)) {
                       onJointSelectRef.current(joint);
                       return;
                   }
@@ -647,7 +769,7 @@ const Viewer: React.FC<ViewerProps> = (props) => {
 
               if (link && link.parent && (link.parent as any).isURDFJoint) {
                   const joint = link.parent as URDFJoint;
-                  if (joint.jointType !== 'fixed') {
+                  if (isScalarJoint(joint)) {
                      onJointSelectRef.current(joint);
                   }
               }
@@ -682,9 +804,10 @@ const Viewer: React.FC<ViewerProps> = (props) => {
       } else {
         unhighlightLink();
         if (newSelection) {
-            const mesh = newSelection.getObjectByProperty('isMesh', true) as THREE.Mesh;
+            const mesh = getDisplayedMesh(newSelection);
             if (mesh) {
               selectedLinkRef.current = newSelection;
+              highlightedLinkMeshRef.current = mesh;
               originalLinkMaterialRef.current = mesh.material;
               mesh.material = linkHighlightMaterialRef.current;
 
@@ -735,6 +858,7 @@ const Viewer: React.FC<ViewerProps> = (props) => {
       window.removeEventListener('mousemove', handleMouseMoveGlobal);
       window.removeEventListener('mouseup', handleMouseUpGlobal);
       window.removeEventListener('blur', handleMouseUpGlobal);
+      gizmo.dispose();
       renderer.dispose();
     };
   }, []);
@@ -743,18 +867,29 @@ const Viewer: React.FC<ViewerProps> = (props) => {
   useEffect(() => {
     const scene = sceneRef.current;
     if (!scene) return;
-    
+    robots.forEach(r => scene.add(r));
+    return () => {
+      robots.forEach(r => scene.remove(r));
+    };
+  }, [robots]);
+
+  // Selection belongs to the active robot
+  useEffect(() => {
     unhighlightLink();
     unhighlightJoint();
     onSelectionUpdateRef.current(null, null, null);
+  }, [robot]);
 
-    if (robot) {
-      scene.add(robot);
-      return () => {
-        scene.remove(robot);
-      }
+  useEffect(() => {
+    const gizmo = gizmoRef.current;
+    if (!gizmo) return;
+    if (robot && gizmoMode) {
+      gizmo.setMode(gizmoMode);
+      gizmo.attach(robot);
+    } else {
+      gizmo.detach();
     }
-  }, [robot]);
+  }, [robot, gizmoMode]);
 
   // 3. Display Toggles
   useEffect(() => {
@@ -772,7 +907,25 @@ const Viewer: React.FC<ViewerProps> = (props) => {
         });
     }
 
-    if (robot) {
+    robots.forEach(robot => {
+        // Visual / Collision geometry
+        robot.traverse(c => {
+            if ((c as any).isURDFVisual) c.visible = collisionMode !== 'collision';
+            if ((c as any).isURDFCollider) c.visible = collisionMode !== 'visual';
+        });
+
+        // Move the selection highlight if its mesh was just hidden
+        const highlighted = highlightedLinkMeshRef.current;
+        if (selectedLinkRef.current && highlighted && !isRendered(highlighted)) {
+            const mesh = getDisplayedMesh(selectedLinkRef.current);
+            if (mesh) {
+                highlighted.material = originalLinkMaterialRef.current as THREE.Material;
+                highlightedLinkMeshRef.current = mesh;
+                originalLinkMaterialRef.current = mesh.material;
+                mesh.material = linkHighlightMaterialRef.current;
+            }
+        }
+
         // Wireframe & Shadows
         robot.traverse(c => {
             const mesh = c.getObjectByProperty('isMesh', true) as THREE.Mesh;
@@ -800,6 +953,21 @@ const Viewer: React.FC<ViewerProps> = (props) => {
             }
         });
 
+        // Inertial Frames (COM + equivalent box), children of the link so they follow joint motion
+        robot.traverse(c => {
+            if ((c as any).isURDFLink) {
+                let inertia = c.children.find(child => child.name === 'inertia-helper-link');
+                if (showInertia && !inertia) {
+                    const inertial = getLinkInertial(c);
+                    if (inertial) {
+                        inertia = createInertiaHelper(inertial);
+                        c.add(inertia);
+                    }
+                }
+                if (inertia) inertia.visible = showInertia;
+            }
+        });
+
         // Joint Visuals (Custom Shapes)
         robot.traverse(c => {
             if ((c as any).isURDFJoint) {
@@ -843,8 +1011,8 @@ const Viewer: React.FC<ViewerProps> = (props) => {
                 if (helper) helper.visible = effectiveShowJointAxes;
             }
         });
-    }
-  }, [robot, wireframe, showLinkAxes, showJointAxes, showShadows, isCtrlPressed]);
+    });
+  }, [robots, wireframe, collisionMode, showLinkAxes, showJointAxes, showInertia, showShadows, isCtrlPressed]);
 
   useEffect(() => {
     if (gridRef.current) gridRef.current.visible = showGrid;
@@ -957,6 +1125,65 @@ const Viewer: React.FC<ViewerProps> = (props) => {
     }
   }, [measurementPoints]);
 
+  // 5. Center of Mass & Support Polygon Visualization
+  useEffect(() => {
+    const group = massGroupRef.current;
+    if (!group) return;
+
+    while (group.children.length > 0) {
+        const child = group.children[0] as THREE.Mesh;
+        if (child.geometry) child.geometry.dispose();
+        if (child.material) (child.material as THREE.Material).dispose();
+        group.remove(child);
+    }
+
+    // Lift overlays slightly above the ground so they don't z-fight with the shadow plane
+    const z = groundZ + 0.002;
+
+    if (supportPolygon && supportPolygon.length >= 3) {
+        const shape = new THREE.Shape(supportPolygon);
+        const fill = new THREE.Mesh(
+            new THREE.ShapeGeometry(shape),
+            new THREE.MeshBasicMaterial({ color: 0x66bb6a, transparent: true, opacity: 0.25, depthWrite: false, side: THREE.DoubleSide })
+        );
+        fill.position.z = z;
+        group.add(fill);
+
+        const outline = new THREE.LineLoop(
+            new THREE.BufferGeometry().setFromPoints(supportPolygon.map(p => new THREE.Vector3(p.x, p.y, z))),
+            new THREE.LineBasicMaterial({ color: 0x66bb6a })
+        );
+        group.add(outline);
+    }
+
+    if (centerOfMass) {
+        const comMarker = new THREE.Mesh(
+            new THREE.SphereGeometry(0.025, 20, 20),
+            new THREE.MeshBasicMaterial({ color: 0xe040fb, depthTest: false, transparent: true, opacity: 0.9 })
+        );
+        comMarker.position.copy(centerOfMass);
+        comMarker.renderOrder = 999;
+        group.add(comMarker);
+
+        const projection = new THREE.Vector3(centerOfMass.x, centerOfMass.y, z);
+        const dropLine = new THREE.Line(
+            new THREE.BufferGeometry().setFromPoints([centerOfMass, projection]),
+            new THREE.LineDashedMaterial({ color: 0xe040fb, dashSize: 0.02, gapSize: 0.015, depthTest: false, transparent: true })
+        );
+        dropLine.computeLineDistances();
+        dropLine.renderOrder = 998;
+        group.add(dropLine);
+
+        const projectionMarker = new THREE.Mesh(
+            new THREE.RingGeometry(0.015, 0.03, 24),
+            new THREE.MeshBasicMaterial({ color: 0xe040fb, side: THREE.DoubleSide, depthTest: false, transparent: true })
+        );
+        projectionMarker.position.copy(projection);
+        projectionMarker.renderOrder = 998;
+        group.add(projectionMarker);
+    }
+  }, [centerOfMass, groundZ, supportPolygon]);
+
   return <div ref={mountRef} style={{ width: '100%', height: '100%' }} />;
 };
 
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { XacroArgument, isBooleanArgument } from '../utils/xacroArgs';
+
+interface XacroArgsPanelProps {
+  args: XacroArgument[];
+  // Overrides only; arguments missing here use their declared default
+  values: Record<string, string>;
+  onApply: (values: Record<string, string>) => void;
+}
+
+const XacroArgsPanel: React.FC<XacroArgsPanelProps> = ({ args, values, onApply }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>(values);
+
+  useEffect(() => { setDrafts(values); }, [values, args]);
+
+  const valueOf = (arg: XacroArgument) => drafts[arg.name] ?? arg.defaultValue ?? '';
+
+  // Only send values that differ from the declared defaults
+  const commit = (next: Record<string, string>) => {
+    const overrides: Record<string, string> = {};
+    args.forEach(arg => {
+      const v = next[arg.name];
+      if (v !== undefined && v !== (arg.defaultValue ?? '')) overrides[arg.name] = v;
+    });
+    if (JSON.stringify(overrides) !== JSON.stringify(values)) onApply(overrides);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+  };
+
+  return (
+    <div className="display-options-container">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+        <h3 style={{ margin: 0 }}>Xacro Arguments</h3>
+        <button
+          onClick={() => onApply({})}
+          disabled={Object.keys(values).length === 0}
+          style={{ padding: '5px 10px', cursor: 'pointer' }}
+        >
+          Defaults
+        </button>
+      </div>
+      {args.map(arg => {
+        const id = `xacro-arg-${arg.name}`;
+        if (isBooleanArgument(arg.defaultValue)) {
+          const checked = valueOf(arg).trim().toLowerCase() === 'true';
+          return (
+            <div key={arg.name} className="option-item">
+              <input
+                type="checkbox"
+                id={id}
+                checked={checked}
+                onChange={(e) => {
+                  const next = { ...drafts, [arg.name]: e.target.checked ? 'true' : 'false' };
+                  setDrafts(next);
+                  commit(next);
+                }}
+              />
+              <label htmlFor={id}>{arg.name}</label>
+            </div>
+          );
+        }
+        return (
+          <div key={arg.name} style={{ marginBottom: '0.5rem' }}>
+            <label htmlFor={id} style={{ display: 'block', fontSize: '0.85rem', color: '#aaa' }}>{arg.name}</label>
+            <input
+              type="text"
+              id={id}
+              value={valueOf(arg)}
+              placeholder={arg.defaultValue ?? '(no default)'}
+              onChange={(e) => setDrafts({ ...drafts, [arg.name]: e.target.value })}
+              onBlur={() => commit(drafts)}
+              onKeyDown={handleKeyDown}
+              style={{ width: '100%', boxSizing: 'border-box' }}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default XacroArgsPanel;
@@ -0,0 +1,83 @@
+import { gunzipSync, unzipSync } from 'three/examples/jsm/libs/fflate.module.js';
+
+const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz', '.tar'];
+
+export function isArchiveFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+const readString = (data: Uint8Array, start: number, length: number) => {
+  const field = data.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+};
+
+// ustar, with the GNU ('L') and pax ('x') extensions for long names
+function untar(data: Uint8Array): Record<string, Uint8Array> {
+  const files: Record<string, Uint8Array> = {};
+  let longName: string | null = null;
+  let offset = 0;
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    // The archive ends with two zero blocks
+    if (header.every(b => b === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      longName = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      longName = new TextDecoder().decode(body).match(/^\d+ path=(.*)$/m)?.[1] ?? null;
+      continue;
+    }
+    const prefix = readString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    longName = null;
+    // Regular files only; directories, links and global pax headers are skipped
+    if (type === '0' || type === '7') files[name] = body;
+  }
+  return files;
+}
+
+// Unpacks a .zip, .tar or .tar.gz into the same path -> File map a dropped folder gives
+export async function extractArchive(archive: File): Promise<Map<string, File>> {
+  const data = new Uint8Array(await archive.arrayBuffer());
+  const lower = archive.name.toLowerCase();
+  let entries: Record<string, Uint8Array>;
+  try {
+    if (lower.endsWith('.zip')) entries = unzipSync(data);
+    else entries = untar(lower.endsWith('.tar') ? data : gunzipSync(data));
+  } catch (err) {
+    throw new Error(`Could not extract ${archive.name}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const files = new Map<string, File>();
+  Object.entries(entries).forEach(([path, content]) => {
+    const normalized = path.replace(/^\.\//, '');
+    // Directory entries and macOS resource forks
+    if (!normalized || normalized.endsWith('/') || normalized.startsWith('__MACOSX/')) return;
+    const name = normalized.split('/').pop()!;
+    // slice() hands the File a copy backed by a plain ArrayBuffer
+    files.set(normalized, new File([content.slice()], name));
+  });
+  return files;
+}
+
+// Replaces the archives of a file map (as dropped or picked, so at its top level) by their contents
+export async function expandArchives(fileMap: Map<string, File>): Promise<Map<string, File>> {
+  const expanded = new Map<string, File>();
+  for (const [path, file] of fileMap) {
+    if (!path.includes('/') && isArchiveFile(file.name)) {
+      (await extractArchive(file)).forEach((f, p) => expanded.set(p, f));
+    } else {
+      expanded.set(path, file);
+    }
+  }
+  return expanded;
+}
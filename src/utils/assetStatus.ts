@@ -0,0 +1,43 @@
+import { MeshLoadFailure } from './urdfValidator';
+
+export type AssetState = 'loading' | 'loaded' | 'not-found' | 'parse-error' | 'unsupported' | 'network-error';
+
+// Load result of one mesh URI of the model
+export interface AssetStatus {
+  // Filename as written in the URDF
+  uri: string;
+  // What the URL modifier turned it into (a local path for dropped files)
+  resolvedUrl: string;
+  state: AssetState;
+  reason?: string;
+  bytes: number | null;
+  loadTimeMs: number | null;
+  // Links whose visual or collision uses this mesh
+  links: string[];
+  // Loaded from a file dropped onto the entry instead of the original location
+  replaced: boolean;
+  // Taken from the mesh cache instead of being loaded and parsed again
+  cache?: 'memory' | 'disk';
+}
+
+export const ASSET_STATE_LABELS: Record<AssetState, string> = {
+  'loading': 'Loading',
+  'loaded': 'Loaded',
+  'not-found': 'Not found',
+  'parse-error': 'Parse error',
+  'unsupported': 'Unsupported',
+  'network-error': 'Network error',
+};
+
+export const isFailedAsset = (asset: AssetStatus) => asset.state !== 'loading' && asset.state !== 'loaded';
+
+// Failures in the form the URDF validator reports them
+export const toMeshFailures = (assets: AssetStatus[]): MeshLoadFailure[] =>
+  assets.filter(isFailedAsset).map(a => ({ uri: a.uri, reason: a.reason || ASSET_STATE_LABELS[a.state] }));
+
+export const formatBytes = (bytes: number | null) => {
+  if (bytes === null) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,113 @@
+// Camera position and orbit target, in world coordinates
+export interface CameraView {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+export const DISPLAY_TOGGLES = ['worldAxes', 'grid', 'linkAxes', 'jointAxes', 'inertia', 'shadows', 'com', 'support', 'wireframe'] as const;
+export type DisplayToggle = typeof DISPLAY_TOGGLES[number];
+
+// Same values as the Viewer's CollisionMode
+const GEOMETRY_MODES = ['visual', 'collision', 'both'] as const;
+type GeometryMode = typeof GEOMETRY_MODES[number];
+
+// Everything a link can carry; absent fields leave the viewer as it is
+export interface DeepLinkState {
+  // Sample path (relative to the app) or remote URL
+  model?: string;
+  joints?: Record<string, number>;
+  camera?: CameraView;
+  link?: string;
+  // Toggles listed in the link are on, all others off
+  toggles?: Record<DisplayToggle, boolean>;
+  geometry?: GeometryMode;
+}
+
+const round = (v: number) => Number(v.toFixed(4));
+
+// "a=1&b=2" without decoding, so values can hold their own encoded separators
+const splitParams = (text: string): Map<string, string> => {
+  const params = new Map<string, string>();
+  text.split('&').forEach(pair => {
+    const index = pair.indexOf('=');
+    if (index > 0) params.set(pair.slice(0, index), pair.slice(index + 1));
+  });
+  return params;
+};
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return undefined;
+  }
+};
+
+const parseVector = (text: string) => {
+  const v = text.split(',').map(Number);
+  return v.length === 3 && v.every(Number.isFinite) ? v as [number, number, number] : null;
+};
+
+/**
+ * Reads ?model=... and the view after the hash:
+ * #joints=shoulder:0.5,elbow:-1.2&cam=px,py,pz,tx,ty,tz&link=base_link&show=grid,worldAxes&geom=collision
+ * Every parameter may also be given in the query string.
+ */
+export function parseDeepLink(search: string, hash: string): DeepLinkState {
+  const params = splitParams(search.replace(/^\?/, ''));
+  splitParams(hash.replace(/^#/, '')).forEach((v, k) => params.set(k, v));
+  const decode = (key: string) => {
+    const value = params.get(key);
+    return value === undefined ? undefined : safeDecode(value);
+  };
+  const state: DeepLinkState = {};
+
+  const model = decode('model');
+  if (model) state.model = model;
+
+  const joints = params.get('joints');
+  if (joints) {
+    state.joints = {};
+    joints.split(',').forEach(entry => {
+      const [encodedName, value] = entry.split(':');
+      const name = safeDecode(encodedName);
+      const v = Number(value);
+      if (name && Number.isFinite(v)) state.joints![name] = v;
+    });
+  }
+
+  const cam = params.get('cam')?.split(',');
+  if (cam?.length === 6) {
+    const position = parseVector(cam.slice(0, 3).join(','));
+    const target = parseVector(cam.slice(3).join(','));
+    if (position && target) state.camera = { position, target };
+  }
+
+  const link = decode('link');
+  if (link) state.link = link;
+
+  const show = decode('show');
+  if (show !== undefined) {
+    const enabled = new Set(show.split(','));
+    state.toggles = Object.fromEntries(DISPLAY_TOGGLES.map(t => [t, enabled.has(t)])) as Record<DisplayToggle, boolean>;
+  }
+
+  const geometry = decode('geom') as GeometryMode | undefined;
+  if (geometry && GEOMETRY_MODES.includes(geometry)) state.geometry = geometry;
+
+  return state;
+}
+
+// URL of the app (`base`, without query or hash) that restores `state`
+export function buildDeepLink(base: string, state: DeepLinkState): string {
+  const query = state.model ? `?model=${encodeURIComponent(state.model)}` : '';
+  const view: string[] = [];
+  if (state.joints && Object.keys(state.joints).length > 0) {
+    view.push(`joints=${Object.entries(state.joints).map(([name, v]) => `${encodeURIComponent(name)}:${round(v)}`).join(',')}`);
+  }
+  if (state.camera) view.push(`cam=${[...state.camera.position, ...state.camera.target].map(round).join(',')}`);
+  if (state.link) view.push(`link=${encodeURIComponent(state.link)}`);
+  if (state.toggles) view.push(`show=${DISPLAY_TOGGLES.filter(t => state.toggles![t]).join(',')}`);
+  if (state.geometry) view.push(`geom=${state.geometry}`);
+  return base + query + (view.length > 0 ? `#${view.join('&')}` : '');
+}
@@ -0,0 +1,66 @@
+import * as THREE from 'three';
+
+// Colors of the two versions while they are overlaid
+export const OLD_VERSION_COLOR = 0xef5350;
+export const NEW_VERSION_COLOR = 0x29b6f6;
+
+type TintableMaterial = THREE.Material & { color?: THREE.Color; map?: THREE.Texture | null };
+
+interface MaterialState {
+  color: THREE.Color;
+  map: THREE.Texture | null;
+  vertexColors: boolean;
+  transparent: boolean;
+  opacity: number;
+  depthWrite: boolean;
+}
+
+// The materials themselves are tinted rather than swapped, so the selection highlight, which swaps
+// materials, restores the tinted ones and the overlay survives selecting
+const savedStates = new WeakMap<THREE.Material, MaterialState>();
+const tintedMaterials = new WeakMap<THREE.Object3D, TintableMaterial[]>();
+
+const restore = (material: TintableMaterial) => {
+  const state = savedStates.get(material);
+  if (!state) return;
+  material.color!.copy(state.color);
+  if (state.map) material.map = state.map;
+  Object.assign(material, { vertexColors: state.vertexColors, transparent: state.transparent, opacity: state.opacity, depthWrite: state.depthWrite });
+  material.needsUpdate = true;
+  savedStates.delete(material);
+};
+
+export function untintRobot(robot: THREE.Object3D) {
+  tintedMaterials.get(robot)?.forEach(restore);
+  tintedMaterials.delete(robot);
+}
+
+// Draws the robot's visual meshes in one translucent color; collision geometry keeps its own styling
+export function tintRobot(robot: THREE.Object3D, color: number) {
+  untintRobot(robot);
+  const materials: TintableMaterial[] = [];
+  robot.traverse(c => {
+    if (!(c as any).isURDFVisual) return;
+    c.traverse(m => {
+      const mesh = m as THREE.Mesh;
+      if (!mesh.isMesh) return;
+      (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach((material: TintableMaterial) => {
+        if (!material.color || savedStates.has(material)) return;
+        savedStates.set(material, {
+          color: material.color.clone(),
+          map: material.map ?? null,
+          vertexColors: material.vertexColors,
+          transparent: material.transparent,
+          opacity: material.opacity,
+          depthWrite: material.depthWrite,
+        });
+        material.color.setHex(color);
+        if (material.map) material.map = null;
+        Object.assign(material, { vertexColors: false, transparent: true, opacity: 0.45, depthWrite: false });
+        material.needsUpdate = true;
+        materials.push(material);
+      });
+    });
+  });
+  tintedMaterials.set(robot, materials);
+}
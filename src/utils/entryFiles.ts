@@ -0,0 +1,100 @@
+import { findEntryPath, findPathInMap, isModelFile } from './fileUtils';
+import { dirname, joinPath } from './fileSource';
+
+// A model file of a dropped folder that could be loaded as the entry
+export interface EntryCandidate {
+  path: string;
+  // <robot name>, <mujoco model> or the SDF model/world name; null if the file has none
+  robotName: string | null;
+  // Candidates that include this one through xacro:include, MJCF <include> or SDF <include>
+  includedBy: string[];
+}
+
+const STORAGE_PREFIX = 'urdf-viewer:entry:';
+
+const modelName = (doc: Document): string | null => {
+  const root = doc.documentElement;
+  if (!root || doc.getElementsByTagName('parsererror').length > 0) return null;
+  switch (root.tagName) {
+    case 'robot': return root.getAttribute('name');
+    case 'mujoco': return root.getAttribute('model');
+    case 'sdf': {
+      const model = Array.from(root.children).find(c => c.tagName === 'model' || c.tagName === 'world');
+      return model?.getAttribute('name') ?? null;
+    }
+    case 'model': return Array.from(root.children).find(c => c.tagName === 'name')?.textContent?.trim() || null;
+    default: return null;
+  }
+};
+
+// Filenames this file pulls in, as written
+const includedFilenames = (doc: Document): string[] => [
+  ...Array.from(doc.getElementsByTagName('xacro:include')).map(e => e.getAttribute('filename')),
+  ...Array.from(doc.getElementsByTagName('include')).map(e => e.getAttribute('file') ?? e.getElementsByTagName('uri')[0]?.textContent),
+  // model.config names its SDF file
+  ...Array.from(doc.getElementsByTagName('sdf')).map(e => (e.children.length === 0 ? e.textContent : null)),
+].filter((f): f is string => !!f && !!f.trim()).map(f => f.trim());
+
+// Path of an included file in the map; filenames with substitutions other than $(find) are not followed
+const resolveIncluded = (filename: string, fromPath: string, files: Map<string, File>): string | undefined => {
+  const find = filename.match(/^\$\(find\s+([^)\s]+)\)\/?(.*)$/);
+  if (find) return findPathInMap(`${find[1]}/${find[2]}`, files);
+  const model = filename.match(/^model:\/\/(.+)$/);
+  if (model) return findPathInMap(`${model[1].replace(/\/+$/, '')}/model.config`, files);
+  if (filename.includes('$(')) return undefined;
+  if (filename.startsWith('package://')) return findPathInMap(filename, files);
+  const relative = joinPath(dirname(fromPath), filename);
+  return files.has(relative) ? relative : findPathInMap(filename, files);
+};
+
+// Every model file of the folder with its name and the files that include it
+export async function describeEntryCandidates(files: Map<string, File>): Promise<EntryCandidate[]> {
+  const candidates = new Map<string, EntryCandidate>();
+  const includes = new Map<string, string[]>();
+  for (const [path, file] of files) {
+    if (!isModelFile(file.name)) continue;
+    const text = await file.text();
+    // .xml files other than MJCF models (launch files, configs) are not offered
+    if (!isModelFile(file.name, text)) continue;
+    const doc = new DOMParser().parseFromString(text, 'text/xml');
+    candidates.set(path, { path, robotName: modelName(doc), includedBy: [] });
+    includes.set(path, includedFilenames(doc));
+  }
+
+  includes.forEach((filenames, from) => {
+    filenames.forEach(filename => {
+      const target = candidates.get(resolveIncluded(filename, from, files) ?? '');
+      if (target && target.path !== from && !target.includedBy.includes(from)) target.includedBy.push(from);
+    });
+  });
+
+  return Array.from(candidates.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// The remembered choice, else the usual name heuristic applied to files nothing else includes
+export function preselectEntry(candidates: EntryCandidate[], files: Map<string, File>, remembered: string | null): string {
+  if (remembered && candidates.some(c => c.path === remembered)) return remembered;
+  const topLevel = candidates.filter(c => c.includedBy.length === 0);
+  const pool = new Map((topLevel.length > 0 ? topLevel : candidates).map(c => [c.path, files.get(c.path)!]));
+  return findEntryPath(pool) ?? candidates[0].path;
+}
+
+// A dropped folder is recognized by its top-level names
+export const folderKey = (files: Map<string, File>) =>
+  Array.from(new Set(Array.from(files.keys()).map(path => path.split('/')[0]))).sort().join(',');
+
+export function loadEntryChoice(key: string): string | null {
+  try {
+    return localStorage.getItem(STORAGE_PREFIX + key);
+  } catch {
+    return null;
+  }
+}
+
+export function saveEntryChoice(key: string, path: string) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, path);
+  } catch {
+    // Storage may be unavailable (private mode, quota); the choice then is not remembered
+  }
+}
@@ -0,0 +1,107 @@
+import { findPathInMap } from './fileUtils';
+import { PackageMappings, resolvePackageUri } from './packageMapping';
+
+// Where model files and their includes come from: the static server for samples, or the dropped folder
+export interface ModelFileSource {
+  // Canonical path of `filename` (substitutions already applied) as included from `fromPath`
+  resolve(filename: string, fromPath: string): string;
+  // File contents, or null if the file does not exist
+  read(path: string): Promise<string | null>;
+}
+
+// Raised when an include cannot be expanded; `chain` lists the files from the entry to the failing include
+export class IncludeError extends Error {
+  chain: string[];
+
+  constructor(message: string, chain: string[]) {
+    super(`${message}\n  include chain: ${chain.join(' → ')}`);
+    this.name = 'IncludeError';
+    this.chain = chain;
+  }
+}
+
+export const dirname = (path: string) => {
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(0, index) : '';
+};
+
+// Collapses "." and ".." segments, keeping a URL scheme/host or a leading slash intact
+export const normalizePath = (path: string) => {
+  const prefix = path.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i)?.[0] ?? (path.startsWith('/') ? '/' : '');
+  const stack: string[] = [];
+  path.slice(prefix.length).split('/').forEach(part => {
+    if (part === '' || part === '.') return;
+    if (part === '..' && stack.length > 0 && stack[stack.length - 1] !== '..') stack.pop();
+    else stack.push(part);
+  });
+  const joined = stack.join('/');
+  return prefix && prefix !== '/' ? `${prefix}/${joined}` : prefix + joined;
+};
+
+export const joinPath = (dir: string, relative: string) => normalizePath(dir ? `${dir}/${relative}` : relative);
+
+// Samples served next to the app: package://pkg/... maps to <baseUrl>pkg/... unless a URL prefix is configured
+export function createHttpFileSource(baseUrl: string, packages: PackageMappings = {}): ModelFileSource {
+  return {
+    resolve(filename, fromPath) {
+      if (/^https?:\/\//.test(filename) || filename.startsWith('/')) return normalizePath(filename);
+      if (filename.startsWith('package://')) {
+        const mapped = resolvePackageUri(filename, packages);
+        if (mapped?.type === 'url') return normalizePath(mapped.target);
+        return normalizePath(baseUrl + filename.slice('package://'.length));
+      }
+      return joinPath(dirname(fromPath), filename);
+    },
+    async read(path) {
+      try {
+        const response = await fetch(path);
+        return response.ok ? await response.text() : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// Dropped or picked folders: paths are keys of the file map ("my_robot/urdf/robot.xacro")
+export function createLocalFileSource(files: Map<string, File>, packages: PackageMappings = {}): ModelFileSource {
+  return {
+    resolve(filename, fromPath) {
+      if (!filename.startsWith('package://') && !filename.startsWith('file://')) {
+        const joined = joinPath(dirname(fromPath), filename);
+        if (files.has(joined)) return joined;
+        return findPathInMap(normalizePath(filename), files) ?? joined;
+      }
+      const mapped = resolvePackageUri(filename, packages);
+      if (mapped?.type === 'folder' && files.has(normalizePath(mapped.target))) return normalizePath(mapped.target);
+      return findPathInMap(filename, files) ?? filename;
+    },
+    async read(path) {
+      const file = files.get(path);
+      return file ? file.text() : null;
+    },
+  };
+}
+
+// Serves edited contents in place of the files' own and records the text of every file read,
+// so the source editor can show (and change) the includes of a model
+export function withEdits(source: ModelFileSource, edits: Map<string, string>, reads: Map<string, string>): ModelFileSource {
+  return {
+    resolve: (filename, fromPath) => source.resolve(filename, fromPath),
+    async read(path) {
+      const text = edits.get(path) ?? await source.read(path);
+      if (text !== null) reads.set(path, text);
+      return text;
+    },
+  };
+}
+
+// Parses a file of an include chain, reporting malformed XML against that chain
+export const parseXmlFile = (content: string, chain: string[]) => {
+  const doc = new DOMParser().parseFromString(content, 'text/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError || !doc.documentElement) {
+    throw new IncludeError(`Malformed XML in "${chain[chain.length - 1]}": ${(parserError?.textContent || '').trim().split('\n')[0]}`, chain);
+  }
+  return doc;
+};
@@ -1,3 +1,4 @@
+import { isMjcfContent } from './mjcfConverter';
 
 // Helper to recursively read all files from a DataTransferItem
 export async function getAllFiles(dataTransferItemList: DataTransferItemList): Promise<Map<string, File>> {
@@ -50,8 +51,14 @@ async function readAllEntries(dirReader: FileSystemDirectoryReader): Promise<Fil
 // Heuristic to find a file in the map given a URDF path
 // targetPath: "package://my_robot/meshes/base.stl" or "meshes/base.stl"
 export function findFileInMap(targetPath: string, fileMap: Map<string, File>): File | undefined {
+  const path = findPathInMap(targetPath, fileMap);
+  return path !== undefined ? fileMap.get(path) : undefined;
+}
+
+// Same heuristic as findFileInMap, but returns the matching key of the map
+export function findPathInMap(targetPath: string, fileMap: Map<string, File>): string | undefined {
   // 1. Exact match (rare, as paths usually differ)
-  if (fileMap.has(targetPath)) return fileMap.get(targetPath);
+  if (fileMap.has(targetPath)) return targetPath;
 
   // Normalize target: remove package://, file://, etc.
   let normalizedTarget = targetPath.replace(/^(package:\/\/|file:\/\/)/, '');
@@ -62,10 +69,10 @@ export function findFileInMap(targetPath: string, fileMap: Map<string, File>): F
   
   // Strategy A: Exact suffix match
   // Iterate all keys? Performance might be okay for < 1000 files.
-  for (const [path, file] of fileMap.entries()) {
-    if (path === normalizedTarget) return file;
-    if (path.endsWith('/' + normalizedTarget)) return file; // map: "root/pkg/mesh.stl", target: "pkg/mesh.stl"
-    if (normalizedTarget.endsWith('/' + path)) return file; // map: "pkg/mesh.stl", target: "root/pkg/mesh.stl" (less likely)
+  for (const path of fileMap.keys()) {
+    if (path === normalizedTarget) return path;
+    if (path.endsWith('/' + normalizedTarget)) return path; // map: "root/pkg/mesh.stl", target: "pkg/mesh.stl"
+    if (normalizedTarget.endsWith('/' + path)) return path; // map: "pkg/mesh.stl", target: "root/pkg/mesh.stl" (less likely)
     
     // Strategy B: Handle package:// stripping more aggressively
     // if target is "package://description/meshes/base.stl" -> "description/meshes/base.stl"
@@ -82,13 +89,56 @@ export function findFileInMap(targetPath: string, fileMap: Map<string, File>): F
   // Strategy C: Loose filename match (fallback, potentially dangerous but helpful for flat structures)
   const targetFileName = normalizedTarget.split('/').pop();
   if (targetFileName) {
-      for (const [path, file] of fileMap.entries()) {
+      for (const path of fileMap.keys()) {
           if (path.endsWith('/' + targetFileName) || path === targetFileName) {
               // Only return if it's the ONLY match? For now, first match.
-              return file;
+              return path;
           }
       }
   }
 
   return undefined;
 }
+
+// Files that can be opened as a model. MJCF models are plain .xml files, so with the file's
+// `content` an .xml only counts when it has a <mujoco> root; without it, any .xml but
+// package.xml might be one. A Gazebo model.config names the SDF file of its model.
+const MODEL_FILE_EXTENSIONS = ['.urdf', '.xacro', '.xml', '.sdf', '.world'];
+
+export function isModelFile(name: string, content?: string): boolean {
+  const lower = name.toLowerCase();
+  if (lower === 'package.xml') return false;
+  if (lower === 'model.config') return true;
+  if (lower.endsWith('.xml') && content !== undefined) return isMjcfContent(content);
+  return MODEL_FILE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+// Candidate entry files: URDF/xacro, then SDF, then MJCF .xml files and model.config
+export function sortModelFiles(files: File[]): File[] {
+  const rank = (f: File) => {
+    const lower = f.name.toLowerCase();
+    if (lower.endsWith('.sdf') || lower.endsWith('.world')) return 1;
+    if (lower.endsWith('.xml') || lower === 'model.config') return 2;
+    return 0;
+  };
+  return [...files].sort((a, b) => rank(a) - rank(b));
+}
+
+// Heuristic to find the best entry point of a dropped folder. Files are told apart by name only, so
+// .xml files without a <mujoco> root should be left out of the map (see describeEntryCandidates)
+// 1. Look for 'main' in the filename
+// 2. Look for 'robot' in the filename
+// 3. Look for 'scene' (MuJoCo models usually load through scene.xml)
+// 4. Look for a Gazebo .world file, which pulls in the models next to it
+// 5. Fallback to the first candidate
+export function findEntryPath(fileMap: Map<string, File>): string | undefined {
+  const candidates = sortModelFiles(Array.from(fileMap.values()).filter(file => isModelFile(file.name)));
+  const lower = (f: File) => f.name.toLowerCase();
+  const entryFile = candidates.find(f => lower(f).includes('main'))
+    ?? candidates.find(f => lower(f).includes('robot'))
+    ?? candidates.find(f => lower(f).includes('scene'))
+    ?? candidates.find(f => lower(f).endsWith('.world'))
+    ?? candidates[0];
+  if (!entryFile) return undefined;
+  return [...fileMap].find(([, f]) => f === entryFile)?.[0];
+}
@@ -0,0 +1,77 @@
+import { isModelFile } from './fileUtils';
+
+// Files of a local folder, keyed like a dropped folder ("my_robot/urdf/robot.xacro")
+export type FileMap = Map<string, File>;
+
+// What has to differ for a file to count as changed
+type FileSignature = (file: File) => Promise<string>;
+
+export const supportsDirectoryHandles = () => 'showDirectoryPicker' in window;
+
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle> {
+  return (window as any).showDirectoryPicker({ mode: 'read' });
+}
+
+// Current contents of a directory handle; hidden folders (.git, .vscode) are skipped
+export async function readDirectoryHandle(handle: FileSystemDirectoryHandle, prefix = handle.name): Promise<FileMap> {
+  const files: FileMap = new Map();
+  for await (const [name, entry] of (handle as any).entries() as AsyncIterable<[string, FileSystemHandle]>) {
+    const path = `${prefix}/${name}`;
+    if (entry.kind === 'file') {
+      files.set(path, await (entry as FileSystemFileHandle).getFile());
+    } else if (!name.startsWith('.')) {
+      (await readDirectoryHandle(entry as FileSystemDirectoryHandle, path)).forEach((f, p) => files.set(p, f));
+    }
+  }
+  return files;
+}
+
+// Directory handles hand out a fresh File for every read
+export const handleSignature: FileSignature = async file => `${file.size}:${file.lastModified}`;
+
+// Files picked through <input webkitdirectory> are snapshots with a fixed size and date. Firefox still
+// reads the current contents, so model files are compared by text; meshes are not watched. Chrome refuses
+// to read a file that changed after picking, which surfaces as an error of the watcher.
+export const pickedFileSignature: FileSignature = async file => (isModelFile(file.name) ? file.text() : '');
+
+/**
+ * Polls `read` and reports the files whenever one is added, removed or changed. Returns a function
+ * that stops the watcher. A failing read is reported once and ends the watch.
+ */
+export function watchFiles(
+  read: () => Promise<FileMap>,
+  signature: FileSignature,
+  onChange: (files: FileMap, changed: string[]) => void,
+  onError: (err: unknown) => void,
+  intervalMs = 1000,
+): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let previous: Map<string, string> | null = null;
+
+  const poll = async () => {
+    try {
+      const files = await read();
+      const current = new Map<string, string>();
+      for (const [path, file] of files) current.set(path, await signature(file));
+      if (stopped) return;
+
+      if (previous) {
+        const changed = [...current.keys()].filter(p => previous!.get(p) !== current.get(p));
+        changed.push(...[...previous.keys()].filter(p => !current.has(p)));
+        if (changed.length > 0) onChange(files, changed);
+      }
+      previous = current;
+      // The next poll starts only once this one is done, so slow folders never overlap
+      timer = setTimeout(poll, intervalMs);
+    } catch (err) {
+      if (!stopped) onError(err);
+    }
+  };
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
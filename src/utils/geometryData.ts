@@ -0,0 +1,34 @@
+import * as THREE from 'three';
+
+// A BufferGeometry as plain typed arrays, for postMessage (transferred, not copied) and IndexedDB
+export interface GeometryData {
+  attributes: Record<string, { array: THREE.TypedArray; itemSize: number; normalized: boolean }>;
+  index: THREE.TypedArray | null;
+  // Material ranges, as OBJ files with several materials per object have
+  groups: { start: number; count: number; materialIndex?: number }[];
+}
+
+export function toGeometryData(geometry: THREE.BufferGeometry): GeometryData {
+  return {
+    attributes: Object.fromEntries(Object.entries(geometry.attributes).map(([name, a]) => {
+      const attribute = a as THREE.BufferAttribute;
+      return [name, { array: attribute.array, itemSize: attribute.itemSize, normalized: attribute.normalized }];
+    })),
+    index: geometry.index ? geometry.index.array : null,
+    groups: geometry.groups.map(g => ({ ...g })),
+  };
+}
+
+export function fromGeometryData(data: GeometryData): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  Object.entries(data.attributes).forEach(([name, a]) => geometry.setAttribute(name, new THREE.BufferAttribute(a.array, a.itemSize, a.normalized)));
+  if (data.index) geometry.setIndex(new THREE.BufferAttribute(data.index, 1));
+  (data.groups ?? []).forEach(g => geometry.addGroup(g.start, g.count, g.materialIndex));
+  return geometry;
+}
+
+// Buffers behind the arrays, each once, for the transfer list of postMessage
+export function geometryBuffers(data: GeometryData): ArrayBuffer[] {
+  const arrays = [...Object.values(data.attributes).map(a => a.array), ...(data.index ? [data.index] : [])];
+  return Array.from(new Set(arrays.map(a => a.buffer as ArrayBuffer)));
+}
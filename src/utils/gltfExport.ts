@@ -0,0 +1,172 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { URDFJoint, URDFRobot } from 'urdf-loader';
+
+// 'nested' keeps one node per link and joint so joints can be animated in other tools,
+// 'baked' merges every visual into a single mesh in the current pose
+export type GltfHierarchy = 'nested' | 'baked';
+
+export interface GltfExportOptions {
+  binary: boolean;
+  hierarchy: GltfHierarchy;
+}
+
+// URDF is Z-up, glTF is Y-up
+const Z_UP_TO_Y_UP = new THREE.Matrix4().makeRotationX(-Math.PI / 2);
+
+const copyTransform = (from: THREE.Object3D, to: THREE.Object3D) => {
+  to.position.copy(from.position);
+  to.quaternion.copy(from.quaternion);
+  to.scale.copy(from.scale);
+};
+
+// glTF only knows PBR materials; the Phong materials of urdf-loader and the mesh loaders are converted
+type MaterialCache = Map<THREE.Material, THREE.Material>;
+
+const toGltfMaterial = (material: THREE.Material, cache: MaterialCache): THREE.Material => {
+  if ((material as THREE.MeshStandardMaterial).isMeshStandardMaterial || (material as THREE.MeshBasicMaterial).isMeshBasicMaterial) {
+    return material;
+  }
+  let converted = cache.get(material);
+  if (!converted) {
+    const m = material as THREE.MeshPhongMaterial;
+    converted = new THREE.MeshStandardMaterial({
+      name: m.name,
+      color: m.color ?? 0xffffff,
+      map: m.map ?? null,
+      transparent: m.transparent,
+      opacity: m.opacity,
+      side: m.side,
+      vertexColors: m.vertexColors,
+      metalness: 0,
+      roughness: 0.7,
+    });
+    cache.set(material, converted);
+  }
+  return converted;
+};
+
+const convertMaterials = (mesh: THREE.Mesh, cache: MaterialCache) => {
+  mesh.material = Array.isArray(mesh.material)
+    ? mesh.material.map(m => toGltfMaterial(m, cache))
+    : toGltfMaterial(mesh.material, cache);
+};
+
+// Links, joints and visuals of the robot, without colliders and viewer helpers
+function cloneKinematicTree(source: THREE.Object3D, cache: MaterialCache): THREE.Object3D {
+  const node = new THREE.Object3D();
+  node.name = source.name;
+  copyTransform(source, node);
+
+  if ((source as URDFJoint).isURDFJoint) {
+    // Ends up as glTF "extras", so the joint can be rigged again elsewhere
+    const joint = source as URDFJoint;
+    node.userData = {
+      jointType: joint.jointType,
+      axis: joint.axis.toArray(),
+      limit: { lower: joint.limit.lower, upper: joint.limit.upper },
+      value: joint.angle,
+    };
+  }
+
+  source.children.forEach(c => {
+    if ((c as any).isURDFJoint || (c as any).isURDFLink) {
+      node.add(cloneKinematicTree(c, cache));
+    } else if ((c as any).isURDFVisual) {
+      const visual = c.clone(true);
+      visual.name = c.name || `${source.name}_visual`;
+      // Exported even while the viewer only shows collision geometry
+      visual.visible = true;
+      visual.traverse(m => {
+        if (!(m as THREE.Mesh).isMesh) return;
+        if (!m.name) m.name = visual.name;
+        convertMaterials(m as THREE.Mesh, cache);
+      });
+      node.add(visual);
+    }
+  });
+  return node;
+}
+
+const visualMeshes = (robot: URDFRobot) => {
+  const meshes: THREE.Mesh[] = [];
+  robot.traverse(c => {
+    if (!(c as any).isURDFVisual) return;
+    c.traverse(m => {
+      if ((m as THREE.Mesh).isMesh) meshes.push(m as THREE.Mesh);
+    });
+  });
+  return meshes;
+};
+
+// Vertices [start, start + count) of a non-indexed geometry
+const sliceGeometry = (geometry: THREE.BufferGeometry, start: number, count: number) => {
+  const slice = new THREE.BufferGeometry();
+  Object.entries(geometry.attributes).forEach(([name, attribute]) => {
+    const a = attribute as THREE.BufferAttribute;
+    slice.setAttribute(name, new THREE.BufferAttribute(a.array.slice(start * a.itemSize, (start + count) * a.itemSize), a.itemSize, a.normalized));
+  });
+  return slice;
+};
+
+// All visuals in world space, merged into one geometry with a group per material
+function bakeRobot(robot: URDFRobot, cache: MaterialCache): THREE.Mesh {
+  robot.updateMatrixWorld(true);
+  const byMaterial = new Map<THREE.Material, THREE.BufferGeometry[]>();
+  const add = (material: THREE.Material, geometry: THREE.BufferGeometry) =>
+    byMaterial.set(material, [...(byMaterial.get(material) || []), geometry]);
+
+  visualMeshes(robot).forEach(mesh => {
+    const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+    geometry.applyMatrix4(new THREE.Matrix4().multiplyMatrices(Z_UP_TO_Y_UP, mesh.matrixWorld));
+    if (!geometry.attributes.normal) geometry.computeVertexNormals();
+    if (Array.isArray(mesh.material)) {
+      const groups = geometry.groups.length > 0
+        ? geometry.groups
+        : [{ start: 0, count: geometry.attributes.position.count, materialIndex: 0 }];
+      groups.forEach(g => add((mesh.material as THREE.Material[])[g.materialIndex ?? 0], sliceGeometry(geometry, g.start, g.count)));
+    } else {
+      add(mesh.material, geometry);
+    }
+  });
+
+  // Geometries can only be merged when they share the same attributes
+  const all = Array.from(byMaterial.values()).flat();
+  const shared = ['position', 'normal', 'uv', 'color'].filter(name => all.every(g => g.attributes[name]));
+  all.forEach(g => Object.keys(g.attributes).forEach(name => {
+    if (!shared.includes(name)) g.deleteAttribute(name);
+  }));
+  all.forEach(g => { g.morphAttributes = {}; g.clearGroups(); });
+
+  const materials = Array.from(byMaterial.keys());
+  if (materials.length === 0) throw new Error('The robot has no visual geometry to bake.');
+  const perMaterial = materials.map(m => mergeGeometries(byMaterial.get(m)!, false));
+  const merged = perMaterial.every(g => g) ? mergeGeometries(perMaterial, true) : null;
+  if (!merged) throw new Error('The visual meshes could not be merged into one mesh.');
+  const mesh = new THREE.Mesh(merged, materials);
+  mesh.name = robot.robotName || robot.name;
+  convertMaterials(mesh, cache);
+  return mesh;
+}
+
+// glTF (JSON) or GLB of the robot in its current pose
+export async function exportRobotGltf(robot: URDFRobot, options: GltfExportOptions): Promise<Blob> {
+  const materials: MaterialCache = new Map();
+  let input: THREE.Object3D;
+  if (options.hierarchy === 'baked') {
+    input = bakeRobot(robot, materials);
+  } else {
+    input = new THREE.Object3D();
+    input.name = robot.robotName || robot.name;
+    Z_UP_TO_Y_UP.decompose(input.position, input.quaternion, input.scale);
+    input.add(cloneKinematicTree(robot, materials));
+  }
+
+  const result = await new GLTFExporter().parseAsync(input, { binary: options.binary, onlyVisible: true });
+  if ((input as THREE.Mesh).isMesh) (input as THREE.Mesh).geometry.dispose();
+  materials.forEach(m => m.dispose());
+  return options.binary
+    ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+    : new Blob([JSON.stringify(result, null, 2)], { type: 'model/gltf+json' });
+}
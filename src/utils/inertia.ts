@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+
+export interface InertiaTensor {
+  ixx: number;
+  ixy: number;
+  ixz: number;
+  iyy: number;
+  iyz: number;
+  izz: number;
+}
+
+export interface InertialData {
+  mass: number;
+  // Origin of the inertial frame relative to the link frame (URDF <origin xyz rpy>)
+  xyz: [number, number, number];
+  rpy: [number, number, number];
+  inertia: InertiaTensor;
+}
+
+export interface PrincipalInertia {
+  moments: [number, number, number];
+  // Rotation whose columns are the principal axes (in the inertial frame)
+  rotation: THREE.Matrix4;
+}
+
+const parseTuple = (value: string | null): [number, number, number] => {
+  if (!value) return [0, 0, 0];
+  const parts = value.trim().split(/\s+/).map(v => parseFloat(v));
+  return [parts[0] || 0, parts[1] || 0, parts[2] || 0];
+};
+
+const parseAttr = (el: Element | null | undefined, name: string): number => {
+  const v = parseFloat(el?.getAttribute(name) ?? '');
+  return isNaN(v) ? 0 : v;
+};
+
+// Reads the <inertial> block of a <link> element. Returns null if the link has none.
+export function parseInertial(linkNode: Element | null): InertialData | null {
+  if (!linkNode) return null;
+  const inertialNode = Array.from(linkNode.children).find(n => n.nodeName.toLowerCase() === 'inertial');
+  if (!inertialNode) return null;
+
+  const child = (tag: string) => Array.from(inertialNode.children).find(n => n.nodeName.toLowerCase() === tag);
+  const origin = child('origin');
+  const inertiaNode = child('inertia');
+
+  return {
+    mass: parseAttr(child('mass'), 'value'),
+    xyz: parseTuple(origin?.getAttribute('xyz') ?? null),
+    rpy: parseTuple(origin?.getAttribute('rpy') ?? null),
+    inertia: {
+      ixx: parseAttr(inertiaNode, 'ixx'),
+      ixy: parseAttr(inertiaNode, 'ixy'),
+      ixz: parseAttr(inertiaNode, 'ixz'),
+      iyy: parseAttr(inertiaNode, 'iyy'),
+      iyz: parseAttr(inertiaNode, 'iyz'),
+      izz: parseAttr(inertiaNode, 'izz'),
+    },
+  };
+}
+
+// Transform of the inertial frame relative to the link frame (URDF rpy = intrinsic ZYX)
+export function getInertialOriginMatrix(inertial: InertialData): THREE.Matrix4 {
+  const [r, p, y] = inertial.rpy;
+  const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(r, p, y, 'ZYX'));
+  return new THREE.Matrix4().compose(new THREE.Vector3(...inertial.xyz), quaternion, new THREE.Vector3(1, 1, 1));
+}
+
+// Diagonalizes the symmetric inertia tensor with Jacobi rotations
+export function getPrincipalInertia(inertia: InertiaTensor): PrincipalInertia {
+  const a = [
+    [inertia.ixx, inertia.ixy, inertia.ixz],
+    [inertia.ixy, inertia.iyy, inertia.iyz],
+    [inertia.ixz, inertia.iyz, inertia.izz],
+  ];
+  const v = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    // Pick the largest off-diagonal element
+    let p = 0, q = 1;
+    if (Math.abs(a[0][2]) > Math.abs(a[p][q])) { p = 0; q = 2; }
+    if (Math.abs(a[1][2]) > Math.abs(a[p][q])) { p = 1; q = 2; }
+    if (Math.abs(a[p][q]) < 1e-15) break;
+
+    const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+    const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+    const c = 1 / Math.sqrt(t * t + 1);
+    const s = t * c;
+
+    for (let k = 0; k < 3; k++) {
+      const akp = a[k][p], akq = a[k][q];
+      a[k][p] = c * akp - s * akq;
+      a[k][q] = s * akp + c * akq;
+    }
+    for (let k = 0; k < 3; k++) {
+      const apk = a[p][k], aqk = a[q][k];
+      a[p][k] = c * apk - s * aqk;
+      a[q][k] = s * apk + c * aqk;
+    }
+    for (let k = 0; k < 3; k++) {
+      const vkp = v[k][p], vkq = v[k][q];
+      v[k][p] = c * vkp - s * vkq;
+      v[k][q] = s * vkp + c * vkq;
+    }
+  }
+
+  const axes = [0, 1, 2].map(i => new THREE.Vector3(v[0][i], v[1][i], v[2][i]));
+  // Keep a right-handed basis so the result is a proper rotation
+  if (axes[0].clone().cross(axes[1]).dot(axes[2]) < 0) axes[2].negate();
+
+  return {
+    moments: [a[0][0], a[1][1], a[2][2]],
+    rotation: new THREE.Matrix4().makeBasis(axes[0], axes[1], axes[2]),
+  };
+}
+
+// A physical inertia tensor is positive definite and its principal moments satisfy the triangle inequality
+export function isPhysicalInertia(moments: [number, number, number], tolerance = 1e-12): boolean {
+  const [a, b, c] = moments;
+  if (a <= 0 || b <= 0 || c <= 0) return false;
+  return a + b >= c - tolerance && a + c >= b - tolerance && b + c >= a - tolerance;
+}
+
+// Size of the solid box with the same mass and principal moments (Ixx = m/12 * (y² + z²), ...)
+export function getEquivalentBoxSize(mass: number, moments: [number, number, number]): THREE.Vector3 | null {
+  if (mass <= 0 || !isPhysicalInertia(moments)) return null;
+  const [a, b, c] = moments;
+  const k = 6 / mass;
+  return new THREE.Vector3(
+    Math.sqrt(Math.max(0, k * (b + c - a))),
+    Math.sqrt(Math.max(0, k * (a + c - b))),
+    Math.sqrt(Math.max(0, k * (a + b - c))),
+  );
+}
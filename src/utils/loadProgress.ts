@@ -0,0 +1,22 @@
+// Items of the model's LoadingManager: one per mesh plus the files its loader fetches (textures, .mtl, ...)
+export interface LoadProgress {
+  loaded: number;
+  total: number;
+  // The mesh being loaded (the latest one started that has not finished), as written in the model
+  current: string | null;
+}
+
+// Dispatched on `window` once the model and every mesh it references have loaded (or failed to),
+// e.g. for fitting the view or taking a screenshot: window.addEventListener(MODEL_LOADED_EVENT, ...)
+export const MODEL_LOADED_EVENT = 'urdf-viewer:model-loaded';
+
+export interface ModelLoadedDetail {
+  path: string;
+  robotName: string;
+  items: number;
+  failedItems: number;
+}
+
+export function emitModelLoaded(detail: ModelLoadedDetail) {
+  window.dispatchEvent(new CustomEvent<ModelLoadedDetail>(MODEL_LOADED_EVENT, { detail }));
+}
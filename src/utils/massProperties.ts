@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import { URDFRobot } from 'urdf-loader';
+import { getLinkInertial } from './urdfDescription';
+
+export interface MassProperties {
+  totalMass: number;
+  // Whole-robot center of mass in world coordinates (null if no link has mass)
+  com: THREE.Vector3 | null;
+  massLinkCount: number;
+  linkCount: number;
+}
+
+export interface SupportPolygon {
+  // Convex hull of the contact points projected onto the ground, counter-clockwise
+  points: THREE.Vector2[];
+  // Height of the lowest point of the robot, used as the ground plane
+  groundZ: number;
+  contactLinks: string[];
+}
+
+const isLink = (obj: THREE.Object3D) => (obj as any).isURDFLink;
+
+// Sums link masses and computes the COM for the robot's current joint configuration
+export function computeMassProperties(robot: URDFRobot): MassProperties {
+  robot.updateMatrixWorld(true);
+
+  let totalMass = 0;
+  let massLinkCount = 0;
+  let linkCount = 0;
+  const weighted = new THREE.Vector3();
+
+  robot.traverse(obj => {
+    if (!isLink(obj)) return;
+    linkCount++;
+    const inertial = getLinkInertial(obj);
+    if (!inertial || inertial.mass <= 0) return;
+
+    const linkCom = new THREE.Vector3(...inertial.xyz).applyMatrix4(obj.matrixWorld);
+    weighted.addScaledVector(linkCom, inertial.mass);
+    totalMass += inertial.mass;
+    massLinkCount++;
+  });
+
+  return {
+    totalMass,
+    com: totalMass > 0 ? weighted.divideScalar(totalMass) : null,
+    massLinkCount,
+    linkCount,
+  };
+}
+
+// World-space corners of the bounding boxes of a link's own visual meshes (not its descendants)
+const getLinkGeometryCorners = (link: THREE.Object3D): THREE.Vector3[] => {
+  const corners: THREE.Vector3[] = [];
+  link.children.forEach(child => {
+    if (!(child as any).isURDFVisual) return;
+    child.traverse(c => {
+      const mesh = c as THREE.Mesh;
+      if (!mesh.isMesh || !mesh.geometry) return;
+      if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+      const { min, max } = mesh.geometry.boundingBox!;
+      for (let i = 0; i < 8; i++) {
+        corners.push(new THREE.Vector3(
+          i & 1 ? max.x : min.x,
+          i & 2 ? max.y : min.y,
+          i & 4 ? max.z : min.z,
+        ).applyMatrix4(mesh.matrixWorld));
+      }
+    });
+  });
+  return corners;
+};
+
+// Monotone chain convex hull, returns counter-clockwise points
+export function convexHull(points: THREE.Vector2[]): THREE.Vector2[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: THREE.Vector2[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: THREE.Vector2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+// Support polygon spanned by the links touching the lowest point of the robot (within `tolerance` meters)
+export function computeSupportPolygon(robot: URDFRobot, tolerance = 0.01): SupportPolygon | null {
+  robot.updateMatrixWorld(true);
+
+  const cornersByLink = new Map<string, THREE.Vector3[]>();
+  let groundZ = Infinity;
+  robot.traverse(obj => {
+    if (!isLink(obj)) return;
+    const corners = getLinkGeometryCorners(obj);
+    if (corners.length === 0) return;
+    cornersByLink.set(obj.name, corners);
+    corners.forEach(c => { groundZ = Math.min(groundZ, c.z); });
+  });
+  if (!isFinite(groundZ)) return null;
+
+  const contactLinks: string[] = [];
+  const contactPoints: THREE.Vector2[] = [];
+  cornersByLink.forEach((corners, name) => {
+    const touching = corners.filter(c => c.z <= groundZ + tolerance);
+    if (touching.length === 0) return;
+    contactLinks.push(name);
+    touching.forEach(c => contactPoints.push(new THREE.Vector2(c.x, c.y)));
+  });
+
+  return { points: convexHull(contactPoints), groundZ, contactLinks };
+}
+
+// Signed distance from a point to the boundary of a convex CCW polygon (positive inside)
+export function getStabilityMargin(point: THREE.Vector2, polygon: THREE.Vector2[]): number | null {
+  if (polygon.length < 3) return null;
+  let margin = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const edge = new THREE.Vector2().subVectors(b, a);
+    const length = edge.length();
+    if (length < 1e-9) continue;
+    const distance = (edge.x * (point.y - a.y) - edge.y * (point.x - a.x)) / length;
+    margin = Math.min(margin, distance);
+  }
+  return isFinite(margin) ? margin : null;
+}
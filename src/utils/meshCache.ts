@@ -0,0 +1,212 @@
+import * as THREE from 'three';
+import { meshFromGeometry } from './meshLoaders';
+import { fromGeometryData, GeometryData, toGeometryData } from './geometryData';
+
+// Where a mesh came from when it was not loaded and parsed again
+export type MeshCacheSource = 'memory' | 'disk';
+
+export interface CachedMesh {
+  object: THREE.Object3D;
+  bytes: number | null;
+}
+
+// Parsed meshes by key, for the lifetime of the page. Entries are templates: every use gets a copy.
+// Map order is use order: a hit moves the entry to the end, and the oldest go past MEMORY_LIMIT.
+const memory = new Map<string, Promise<CachedMesh>>();
+const MEMORY_LIMIT = 256;
+
+const remember = (key: string, entry: Promise<CachedMesh>) => {
+  memory.delete(key);
+  memory.set(key, entry);
+  for (const oldest of memory.keys()) {
+    if (memory.size <= MEMORY_LIMIT) break;
+    memory.delete(oldest);
+  }
+};
+
+// STL and PLY parse to a single geometry, which is what gets written to IndexedDB
+const PERSISTED_FORMATS = ['stl', 'ply'];
+// Formats that never read textures or materials from next to the mesh, so equal bytes mean an equal mesh
+const SELF_CONTAINED_FORMATS = ['stl', 'ply', 'glb', '3mf'];
+
+const PERSIST_KEY = 'urdf-viewer:persist-meshes';
+const DB_NAME = 'urdf-viewer-meshes';
+const STORE = 'geometries';
+
+export function isMeshCachePersistent(): boolean {
+  try {
+    return localStorage.getItem(PERSIST_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setMeshCachePersistent(persistent: boolean) {
+  try {
+    if (persistent) localStorage.setItem(PERSIST_KEY, 'true');
+    else localStorage.removeItem(PERSIST_KEY);
+  } catch {
+    // Storage unavailable (private mode); the choice lasts for this page only
+  }
+}
+
+const URL_KEY = 'url:';
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Cache key of a mesh: its resolved URL, or for dropped files (blob URLs change on every load) a hash
+ * of the content. Null means "do not cache": local meshes that may pick up textures from their folder,
+ * and pages without WebCrypto (plain http on another host).
+ */
+export async function meshCacheKey(url: string, ext: string, file?: File): Promise<string | null> {
+  if (!file) return /^(https?:|\/)/.test(url) ? `${URL_KEY}${url}` : null;
+  if (!SELF_CONTAINED_FORMATS.includes(ext.toLowerCase()) || !crypto?.subtle) return null;
+  return `sha256:${toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()))}.${ext.toLowerCase()}`;
+}
+
+// A copy that shares geometry and textures with the template but has its own materials,
+// since collision styling replaces materials per link
+const instantiate = (template: THREE.Object3D) => {
+  const copy = template.clone(true);
+  copy.traverse(c => {
+    const mesh = c as THREE.Mesh;
+    if (mesh.isMesh) mesh.material = Array.isArray(mesh.material) ? mesh.material.map(m => m.clone()) : mesh.material.clone();
+  });
+  return copy;
+};
+
+// -- IndexedDB --
+
+// What the server said about a file when its geometry was stored. A geometry stored in an earlier
+// session is only used while the file still matches; the headers they both have are compared.
+interface FileVersion {
+  etag: string | null;
+  modified: string | null;
+  size: string | null;
+}
+
+interface StoredGeometry extends GeometryData {
+  bytes: number | null;
+  version?: FileVersion | null;
+}
+
+async function fetchVersion(url: string): Promise<FileVersion | null> {
+  try {
+    const response = await fetch(url, { method: 'HEAD', cache: 'no-cache' });
+    if (!response.ok) return null;
+    const headers = response.headers;
+    return { etag: headers.get('ETag'), modified: headers.get('Last-Modified'), size: headers.get('Content-Length') };
+  } catch {
+    return null;
+  }
+}
+
+// Offline, or a server that sends none of the headers: the stored geometry is used as it is
+const isSameVersion = (stored: FileVersion, current: FileVersion | null) => !current
+  || (['etag', 'modified', 'size'] as const).every(h => !stored[h] || !current[h] || stored[h] === current[h]);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const inStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => openDb().then(db => new Promise<T>((resolve, reject) => {
+  const request = run(db.transaction(STORE, mode).objectStore(STORE));
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+}));
+
+async function readGeometry(key: string): Promise<{ geometry: THREE.BufferGeometry; bytes: number | null } | null> {
+  try {
+    const stored = await inStore<StoredGeometry | undefined>('readonly', store => store.get(key));
+    if (!stored) return null;
+    if (stored.version && !isSameVersion(stored.version, await fetchVersion(key.slice(URL_KEY.length)))) return null;
+    return { geometry: fromGeometryData(stored), bytes: stored.bytes };
+  } catch {
+    return null;
+  }
+}
+
+function writeGeometry(key: string, object: THREE.Object3D, bytes: number | null) {
+  let geometry: THREE.BufferGeometry | null = null;
+  object.traverse(c => { if ((c as THREE.Mesh).isMesh) geometry = (c as THREE.Mesh).geometry; });
+  if (!geometry) return;
+  const data = toGeometryData(geometry);
+  const version = key.startsWith(URL_KEY) ? fetchVersion(key.slice(URL_KEY.length)) : Promise.resolve(null);
+  version
+    .then(v => {
+      const stored: StoredGeometry = { ...data, bytes, version: v };
+      return inStore('readwrite', store => store.put(stored, key));
+    })
+    .catch(err => console.warn('Mesh cache: could not store geometry', err));
+}
+
+/**
+ * Returns a copy of the mesh under `key`, calling `load` only if it is neither in memory nor
+ * (for STL/PLY, when persistence is on) in IndexedDB. Meshes requested again while still loading
+ * wait for the same load. Failed loads are not remembered.
+ */
+export async function loadCachedMesh(
+  key: string | null, ext: string, load: () => Promise<CachedMesh>,
+): Promise<CachedMesh & { source: MeshCacheSource | null }> {
+  if (!key) return { ...await load(), source: null };
+
+  const cached = memory.get(key);
+  if (cached) {
+    remember(key, cached);
+    try {
+      const entry = await cached;
+      return { object: instantiate(entry.object), bytes: entry.bytes, source: 'memory' };
+    } catch (err) {
+      // The load this was waiting for belonged to a model that has been cancelled since; load it for this one
+      if (err instanceof DOMException && err.name === 'AbortError') return loadCachedMesh(key, ext, load);
+      throw err;
+    }
+  }
+
+  let source: MeshCacheSource | null = null;
+  const persisted = PERSISTED_FORMATS.includes(ext.toLowerCase()) && isMeshCachePersistent();
+  const pending = (async () => {
+    const stored = persisted ? await readGeometry(key) : null;
+    if (stored) {
+      source = 'disk';
+      return { object: meshFromGeometry(ext, stored.geometry), bytes: stored.bytes };
+    }
+    const entry = await load();
+    if (persisted) writeGeometry(key, entry.object, entry.bytes);
+    return entry;
+  })();
+  remember(key, pending);
+  pending.catch(() => {
+    if (memory.get(key) === pending) memory.delete(key);
+  });
+
+  const entry = await pending;
+  return { object: instantiate(entry.object), bytes: entry.bytes, source };
+}
+
+// Drops the served meshes kept in memory, so they are checked against the server again (stored
+// geometry is revalidated when read); dropped files are keyed by content and stay
+export function forgetServedMeshes() {
+  Array.from(memory.keys()).forEach(key => {
+    if (key.startsWith(URL_KEY)) memory.delete(key);
+  });
+}
+
+// Drops the parsed meshes in memory and on disk; meshes shown right now stay as they are
+export async function clearMeshCache() {
+  memory.clear();
+  try {
+    await inStore('readwrite', store => store.clear());
+  } catch {
+    // No IndexedDB, so nothing stored either
+  }
+}
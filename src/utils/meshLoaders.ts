@@ -0,0 +1,177 @@
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { ThreeMFLoader } from 'three/examples/jsm/loaders/3MFLoader.js';
+import dracoWrapperUrl from 'three/examples/jsm/libs/draco/gltf/draco_wasm_wrapper.js?url';
+import dracoWasmUrl from 'three/examples/jsm/libs/draco/gltf/draco_decoder.wasm?url';
+import { fromGeometryData } from './geometryData';
+import { fromSceneData } from './sceneData';
+import { DecodedObjPart, decodeInWorker, supportsWorkers, WORKER_MESH_FORMATS } from './workerPool';
+
+export const SUPPORTED_MESH_FORMATS = ['stl', 'dae', 'obj', 'glb', 'gltf', 'ply', '3mf'];
+
+export const isSupportedMeshFormat = (ext: string) => SUPPORTED_MESH_FORMATS.includes(ext.toLowerCase());
+
+// The Draco decoder ships with three; its files are bundled by Vite under hashed names,
+// so the decoder's own requests are redirected to them
+const dracoManager = new THREE.LoadingManager();
+dracoManager.setURLModifier(url => {
+  if (url.endsWith('draco_wasm_wrapper.js')) return dracoWrapperUrl;
+  if (url.endsWith('draco_decoder.wasm')) return dracoWasmUrl;
+  return url;
+});
+const dracoLoader = new DRACOLoader(dracoManager).setDecoderConfig({ type: 'wasm' });
+
+type ProgressHandler = (e: ProgressEvent) => void;
+
+// The mesh file could not be fetched: `status` is the HTTP status, or null if there was no response
+export class MeshFetchError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = 'MeshFetchError';
+    this.status = status;
+  }
+}
+
+// OBJ files name their materials in "mtllib"; textures of the MTL are looked up next to the mesh
+async function loadMtl(mtllib: string, resourceDir: string, manager: THREE.LoadingManager) {
+  try {
+    const mtlLoader = new MTLLoader(manager);
+    mtlLoader.setResourcePath(resourceDir);
+    const materials = await mtlLoader.loadAsync(resourceDir + mtllib);
+    materials.preload();
+    return materials;
+  } catch (err) {
+    console.warn(`OBJ: could not load material library "${mtllib}", using default materials`, err);
+    return null;
+  }
+}
+
+async function loadObj(url: string, resourceDir: string, manager: THREE.LoadingManager, onProgress: ProgressHandler) {
+  const text = await new THREE.FileLoader(manager).loadAsync(url, onProgress) as string;
+  const objLoader = new OBJLoader(manager);
+  const mtllib = text.match(/^\s*mtllib\s+(.+?)\s*$/m)?.[1];
+  const materials = mtllib ? await loadMtl(mtllib, resourceDir, manager) : null;
+  if (materials) objLoader.setMaterials(materials);
+  return objLoader.parse(text);
+}
+
+// Rebuilds what OBJLoader returns from the geometry decoded by a worker, with the MTL materials if any
+function buildObj(parts: DecodedObjPart[], materials: MTLLoader.MaterialCreator | null) {
+  const group = new THREE.Group();
+  parts.forEach(part => {
+    const created = part.materials.map(m => {
+      const fromMtl = part.type === 'Mesh' ? materials?.create(m.name) : undefined;
+      if (fromMtl) return fromMtl;
+      const material = part.type === 'LineSegments' ? new THREE.LineBasicMaterial()
+        : part.type === 'Points' ? new THREE.PointsMaterial({ size: 1, sizeAttenuation: false })
+        : new THREE.MeshPhongMaterial({ flatShading: m.flatShading });
+      material.name = m.name;
+      material.vertexColors = m.vertexColors;
+      return material;
+    });
+    const geometry = fromGeometryData(part.geometry);
+    const material = created.length === 1 ? created[0] : created;
+    const object = part.type === 'LineSegments' ? new THREE.LineSegments(geometry, material)
+      : part.type === 'Points' ? new THREE.Points(geometry, material)
+      : new THREE.Mesh(geometry, material);
+    object.name = part.name;
+    group.add(object);
+  });
+  return group;
+}
+
+// STL, PLY, OBJ and COLLADA are fetched and decoded on the worker pool, off the main thread
+async function decodeOffThread(
+  ext: string, url: string, resourceDir: string, manager: THREE.LoadingManager, onProgress: ProgressHandler, signal?: AbortSignal,
+): Promise<THREE.Object3D> {
+  const response = await decodeInWorker(ext, new URL(url, location.href).href, signal);
+  if ('error' in response) {
+    if (response.status !== undefined || response.network) throw new MeshFetchError(response.error, response.status ?? null);
+    throw new Error(response.error);
+  }
+  onProgress(new ProgressEvent('progress', { loaded: response.bytes, total: response.bytes }));
+  if ('geometry' in response) return meshFromGeometry(ext, fromGeometryData(response.geometry));
+  if ('scene' in response) return fromSceneData(response.scene, manager);
+  const materials = response.mtllib ? await loadMtl(response.mtllib, resourceDir, manager) : null;
+  return buildObj(response.parts, materials);
+}
+
+async function loadGltf(url: string, resourceDir: string, manager: THREE.LoadingManager, onProgress: ProgressHandler) {
+  const loader = new GLTFLoader(manager).setDRACOLoader(dracoLoader);
+  loader.setResourcePath(resourceDir);
+  const gltf = await loader.loadAsync(url, onProgress);
+  // glTF is Y-up while URDF meshes are Z-up. buildRobot resets the rotation of the object it
+  // gets back, so the conversion goes on a child.
+  const group = new THREE.Group();
+  gltf.scene.rotation.x = Math.PI / 2;
+  group.add(gltf.scene);
+  return group;
+}
+
+// STL and PLY parse to a bare geometry; this builds what loadMeshFile returns for it
+// (also used for geometry restored from the mesh cache)
+export function meshFromGeometry(ext: string, geometry: THREE.BufferGeometry): THREE.Object3D {
+  if (ext.toLowerCase() !== 'ply') return new THREE.Mesh(geometry, new THREE.MeshStandardMaterial());
+  if (!geometry.attributes.normal) geometry.computeVertexNormals();
+  const hasColors = !!geometry.attributes.color;
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ vertexColors: hasColors }));
+  if (!hasColors) return mesh;
+  // buildRobot replaces the material of a bare mesh; grouping keeps the vertex colors
+  const group = new THREE.Group();
+  group.add(mesh);
+  return group;
+}
+
+/**
+ * Loads one mesh file. `url` is the resolved URL (possibly a blob URL); `path` is the filename
+ * as written in the URDF, so files the mesh refers to (textures, .mtl, .bin) are resolved next to
+ * it through the URL modifier of `manager`, like the mesh itself. Aborting `signal` cancels
+ * decoding on the worker pool; the other formats load on the main thread and run to completion.
+ */
+export async function loadMeshFile(
+  ext: string, url: string, path: string, manager: THREE.LoadingManager, onProgress: ProgressHandler, signal?: AbortSignal,
+): Promise<THREE.Object3D> {
+  const resourceDir = path.slice(0, path.lastIndexOf('/') + 1);
+  if (supportsWorkers() && WORKER_MESH_FORMATS.includes(ext.toLowerCase())) {
+    return decodeOffThread(ext.toLowerCase(), url, resourceDir, manager, onProgress, signal);
+  }
+  try {
+    return await loadOnMainThread(ext, url, resourceDir, manager, onProgress);
+  } catch (err) {
+    // three's FileLoader rejects with the Response of a failed request, fetch() with a TypeError
+    const status = (err as { response?: Response })?.response?.status;
+    if (status) throw new MeshFetchError(`HTTP ${status}`, status);
+    if (err instanceof TypeError && /fetch|network|load failed/i.test(err.message)) throw new MeshFetchError(err.message, null);
+    throw err;
+  }
+}
+
+function loadOnMainThread(
+  ext: string, url: string, resourceDir: string, manager: THREE.LoadingManager, onProgress: ProgressHandler,
+): Promise<THREE.Object3D> {
+  switch (ext.toLowerCase()) {
+    case 'stl':
+      return new STLLoader(manager).loadAsync(url, onProgress).then(geometry => meshFromGeometry(ext, geometry));
+    case 'dae':
+      return new ColladaLoader(manager).loadAsync(url, onProgress).then(collada => collada.scene);
+    case 'obj':
+      return loadObj(url, resourceDir, manager, onProgress);
+    case 'glb':
+    case 'gltf':
+      return loadGltf(url, resourceDir, manager, onProgress);
+    case 'ply':
+      return new PLYLoader(manager).loadAsync(url, onProgress).then(geometry => meshFromGeometry(ext, geometry));
+    case '3mf':
+      return new ThreeMFLoader(manager).loadAsync(url, onProgress);
+    default:
+      return Promise.reject(new Error(`unsupported format ".${ext}"`));
+  }
+}
@@ -0,0 +1,242 @@
+import * as THREE from 'three';
+
+/**
+ * Mesh simplification by vertex clustering, and distance-based switching between the original
+ * geometry and simplified versions of it. Clustering is linear in the number of triangles, which
+ * keeps it usable on CAD exports with millions of them, at the price of rounding off small features.
+ */
+
+export interface TriangleStats {
+  // Visual meshes at full resolution
+  before: number;
+  // Visual meshes at the budgeted level; equal to `before` when nothing was simplified
+  after: number;
+  simplifiedLinks: number;
+}
+
+// Level 0 is the original geometry, level 1 fits the link budget, level 2 a quarter of it
+interface LodState {
+  levels: THREE.BufferGeometry[];
+}
+
+// Fraction of the view height a mesh must cover to be drawn at a level; smaller meshes go one level down
+const LEVEL_SCREEN_SIZES = [0.5, 0.08];
+
+const lodStates = new WeakMap<THREE.Mesh, LodState>();
+const lodMeshes = new WeakMap<THREE.Object3D, THREE.Mesh[]>();
+// Simplified versions per source geometry and target, shared by meshes that share the geometry
+const simplified = new WeakMap<THREE.BufferGeometry, Map<number, THREE.BufferGeometry | null>>();
+
+export const countTriangles = (geometry: THREE.BufferGeometry) =>
+  Math.floor((geometry.index ? geometry.index.count : geometry.getAttribute('position')?.count ?? 0) / 3);
+
+// Visual meshes of each link; textured meshes are left alone since clustering loses their UVs
+function visualMeshesByLink(robot: THREE.Object3D): Map<THREE.Object3D, THREE.Mesh[]> {
+  const byLink = new Map<THREE.Object3D, THREE.Mesh[]>();
+  robot.traverse(obj => {
+    if (!(obj as any).isURDFLink) return;
+    const meshes: THREE.Mesh[] = [];
+    obj.children.filter(c => (c as any).isURDFVisual).forEach(visual => visual.traverse(c => {
+      const mesh = c as THREE.Mesh;
+      if (!mesh.isMesh || !mesh.geometry.getAttribute('position')) return;
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      if (materials.some(m => (m as THREE.MeshStandardMaterial).map)) return;
+      meshes.push(mesh);
+    }));
+    if (meshes.length > 0) byLink.set(obj, meshes);
+  });
+  return byLink;
+}
+
+/**
+ * Merges the vertices falling into each cell of a grid over the bounding box, with the grid resolution
+ * searched so the result has at most `targetTriangles` triangles (or as close as a 2-cell grid gets).
+ * Returns null if the geometry is already small enough. Normals are recomputed; UVs are dropped.
+ */
+export function simplifyGeometry(geometry: THREE.BufferGeometry, targetTriangles: number): THREE.BufferGeometry | null {
+  const triangleCount = countTriangles(geometry);
+  if (triangleCount <= targetTriangles) return null;
+
+  const position = geometry.getAttribute('position');
+  const color = geometry.getAttribute('color');
+  const index = geometry.index;
+  const vertexOf = (corner: number) => (index ? index.getX(corner) : corner);
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const size = box.getSize(new THREE.Vector3());
+  const maxSize = Math.max(size.x, size.y, size.z) || 1;
+
+  const cluster = (resolution: number) => {
+    const cell = maxSize / resolution;
+    const ids = new Int32Array(position.count);
+    const keys = new Map<number, number>();
+    const side = resolution + 1;
+    for (let v = 0; v < position.count; v++) {
+      const ix = Math.floor((position.getX(v) - box.min.x) / cell);
+      const iy = Math.floor((position.getY(v) - box.min.y) / cell);
+      const iz = Math.floor((position.getZ(v) - box.min.z) / cell);
+      const key = (ix * side + iy) * side + iz;
+      let id = keys.get(key);
+      if (id === undefined) {
+        id = keys.size;
+        keys.set(key, id);
+      }
+      ids[v] = id;
+    }
+    let kept = 0;
+    for (let t = 0; t < triangleCount; t++) {
+      const a = ids[vertexOf(3 * t)], b = ids[vertexOf(3 * t + 1)], c = ids[vertexOf(3 * t + 2)];
+      if (a !== b && b !== c && a !== c) kept++;
+    }
+    return { ids, clusters: keys.size, kept };
+  };
+
+  // Surfaces keep roughly resolution² triangles, so a few corrected guesses land near the target
+  let resolution = Math.max(2, Math.round(Math.sqrt(targetTriangles / 4)));
+  let best = cluster(resolution);
+  for (let i = 0; i < 5 && best.kept > targetTriangles && resolution > 2; i++) {
+    resolution = Math.max(2, Math.min(resolution - 1, Math.floor(resolution * Math.sqrt(targetTriangles / best.kept))));
+    best = cluster(resolution);
+  }
+  for (let i = 0; i < 5; i++) {
+    const finer = Math.floor(resolution * Math.min(1.5, Math.sqrt(targetTriangles / Math.max(1, best.kept))));
+    if (finer <= resolution) break;
+    const attempt = cluster(finer);
+    if (attempt.kept > targetTriangles) break;
+    resolution = finer;
+    best = attempt;
+  }
+
+  // Cluster positions (and colors) are the means of their vertices
+  const sums = new Float64Array(best.clusters * 3);
+  const colorSums = color ? new Float64Array(best.clusters * 3) : null;
+  const counts = new Uint32Array(best.clusters);
+  for (let v = 0; v < position.count; v++) {
+    const id = best.ids[v];
+    sums[3 * id] += position.getX(v);
+    sums[3 * id + 1] += position.getY(v);
+    sums[3 * id + 2] += position.getZ(v);
+    if (colorSums) {
+      colorSums[3 * id] += color.getX(v);
+      colorSums[3 * id + 1] += color.getY(v);
+      colorSums[3 * id + 2] += color.getZ(v);
+    }
+    counts[id]++;
+  }
+  const positions = new Float32Array(best.clusters * 3);
+  const colors = colorSums ? new Float32Array(best.clusters * 3) : null;
+  for (let i = 0; i < positions.length; i++) {
+    positions[i] = sums[i] / counts[Math.floor(i / 3)];
+    if (colors) colors[i] = colorSums![i] / counts[Math.floor(i / 3)];
+  }
+
+  // Triangles keep their order within material groups, so the groups can be mapped over
+  const groups = geometry.groups.length > 0 ? geometry.groups : [{ start: 0, count: triangleCount * 3, materialIndex: 0 }];
+  const indices = new Uint32Array(best.kept * 3);
+  const result = new THREE.BufferGeometry();
+  let written = 0;
+  groups.forEach(group => {
+    const start = written;
+    for (let corner = group.start; corner < group.start + group.count; corner += 3) {
+      const a = best.ids[vertexOf(corner)], b = best.ids[vertexOf(corner + 1)], c = best.ids[vertexOf(corner + 2)];
+      if (a === b || b === c || a === c) continue;
+      indices[written++] = a;
+      indices[written++] = b;
+      indices[written++] = c;
+    }
+    if (geometry.groups.length > 0) result.addGroup(start, written - start, group.materialIndex);
+  });
+
+  result.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  if (colors) result.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  result.setIndex(new THREE.BufferAttribute(indices.subarray(0, written), 1));
+  result.computeVertexNormals();
+  return result;
+}
+
+const simplifyCached = (geometry: THREE.BufferGeometry, target: number) => {
+  let byTarget = simplified.get(geometry);
+  if (!byTarget) simplified.set(geometry, byTarget = new Map());
+  if (!byTarget.has(target)) byTarget.set(target, simplifyGeometry(geometry, target));
+  return byTarget.get(target) ?? geometry;
+};
+
+// Picking, measuring and joint dragging hit the original triangles whatever level is drawn
+function fullResolutionRaycast(this: THREE.Mesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+  const state = lodStates.get(this);
+  const drawn = this.geometry;
+  if (state) this.geometry = state.levels[0];
+  try {
+    THREE.Mesh.prototype.raycast.call(this, raycaster, intersects);
+  } finally {
+    this.geometry = drawn;
+  }
+}
+
+// Puts every mesh back to its original geometry
+export function removeLod(robot: THREE.Object3D) {
+  lodMeshes.get(robot)?.forEach(mesh => {
+    const state = lodStates.get(mesh);
+    if (state) mesh.geometry = state.levels[0];
+    lodStates.delete(mesh);
+    delete (mesh as Partial<THREE.Mesh>).raycast;
+  });
+  lodMeshes.delete(robot);
+}
+
+/**
+ * Gives the visual meshes of every link with more than `budget` triangles simplified levels, splitting
+ * the budget over the link's meshes by their size. Levels are picked per frame by updateLod.
+ */
+export function applyLod(robot: THREE.Object3D, budget: number, fullResolutionPicking: boolean): TriangleStats {
+  removeLod(robot);
+  const stats: TriangleStats = { before: 0, after: 0, simplifiedLinks: 0 };
+  const meshes: THREE.Mesh[] = [];
+  visualMeshesByLink(robot).forEach(linkMeshes => {
+    const linkTriangles = linkMeshes.reduce((sum, m) => sum + countTriangles(m.geometry), 0);
+    stats.before += linkTriangles;
+    if (linkTriangles <= budget) {
+      stats.after += linkTriangles;
+      return;
+    }
+    stats.simplifiedLinks++;
+    linkMeshes.forEach(mesh => {
+      const original = mesh.geometry;
+      const target = Math.max(12, Math.floor((countTriangles(original) * budget) / linkTriangles));
+      const levels = [original, simplifyCached(original, target), simplifyCached(original, Math.max(12, Math.floor(target / 4)))];
+      stats.after += countTriangles(levels[1]);
+      lodStates.set(mesh, { levels });
+      if (fullResolutionPicking) mesh.raycast = fullResolutionRaycast;
+      mesh.geometry = levels[1];
+      meshes.push(mesh);
+    });
+  });
+  if (meshes.length > 0) lodMeshes.set(robot, meshes);
+  return stats;
+}
+
+// Triangles of the visual meshes as loaded
+export function countVisualTriangles(robot: THREE.Object3D): number {
+  let total = 0;
+  visualMeshesByLink(robot).forEach(meshes => meshes.forEach(m => { total += countTriangles(lodStates.get(m)?.levels[0] ?? m.geometry); }));
+  return total;
+}
+
+const sphere = new THREE.Sphere();
+
+// Picks the level of every simplified mesh from how much of the view it covers; cheap when there are none
+export function updateLod(robot: THREE.Object3D, camera: THREE.PerspectiveCamera) {
+  const meshes = lodMeshes.get(robot);
+  if (!meshes) return;
+  const halfHeight = Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2);
+  meshes.forEach(mesh => {
+    const state = lodStates.get(mesh)!;
+    const original = state.levels[0];
+    if (!original.boundingSphere) original.computeBoundingSphere();
+    sphere.copy(original.boundingSphere!).applyMatrix4(mesh.matrixWorld);
+    const distance = Math.max(1e-6, sphere.center.distanceTo(camera.position) - sphere.radius);
+    const screenSize = sphere.radius / (distance * halfHeight);
+    const level = screenSize > LEVEL_SCREEN_SIZES[0] ? 0 : screenSize > LEVEL_SCREEN_SIZES[1] ? 1 : 2;
+    mesh.geometry = state.levels[level];
+  });
+}
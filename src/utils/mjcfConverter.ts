@@ -0,0 +1,337 @@
+import * as THREE from 'three';
+import { IncludeError, ModelFileSource, joinPath, parseXmlFile } from './fileSource';
+import {
+  GeometrySpec, JointSpec, UNLIMITED_PRISMATIC_RANGE, appendCollision, appendElement, appendInertial, appendJoint,
+  appendVisual, capsuleGeometries, createNameRegistry, createUrdfDocument, serializeUrdf,
+} from './urdfBuilder';
+
+// MuJoCo MJCF importer. The model is translated into URDF text so that it goes through the
+// same loading pipeline (Viewer, JointController, StructureTree, validation) as URDF files.
+//  - hinge/slide joints become revolute (or continuous) / prismatic joints
+//  - ball joints become three revolute joints about x, y and z with intermediate links
+//  - free joints become floating joints
+//  - several joints in one body are chained through intermediate links
+//  - capsules are drawn as a cylinder plus two spheres, ellipsoids as their bounding sphere
+//  - planes and height fields are skipped (the viewer has its own ground grid)
+
+export const isMjcfContent = (content: string) =>
+  /^\s*(<\?[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*)*<mujoco[\s>/]/.test(content);
+
+interface CompilerOptions {
+  degrees: boolean;
+  eulerseq: string;
+  meshdir: string;
+  autolimits: boolean;
+}
+
+interface DefaultClass {
+  parent: string | null;
+  attrs: Map<string, Record<string, string>>;
+}
+
+const DEFAULT_RGBA = [0.5, 0.5, 0.5, 1];
+
+const attributesOf = (el: Element) => {
+  const attrs: Record<string, string> = {};
+  Array.from(el.attributes).forEach(a => { attrs[a.name] = a.value; });
+  return attrs;
+};
+
+const numbers = (value: string | undefined, fallback: number[] = []) =>
+  value ? value.trim().split(/\s+/).map(Number) : fallback;
+
+const elementChildren = (el: Element, tag?: string) =>
+  Array.from(el.children).filter(c => !tag || c.tagName === tag);
+
+// Replaces every <include file="..."/> with the children of the included file's <mujoco> root.
+// MuJoCo resolves include paths relative to the main model file.
+async function expandIncludes(parent: Element, entryPath: string, chain: string[], source: ModelFileSource) {
+  for (const child of elementChildren(parent)) {
+    if (child.tagName !== 'include') {
+      await expandIncludes(child, entryPath, chain, source);
+      continue;
+    }
+    const file = child.getAttribute('file') || '';
+    const path = source.resolve(file, entryPath);
+    if (chain.includes(path)) throw new IncludeError(`Include cycle: "${path}" includes itself`, [...chain, path]);
+    const text = await source.read(path);
+    if (text === null) throw new IncludeError(`Cannot find included file "${file}" (resolved to "${path}")`, [...chain, path]);
+
+    const includedChain = [...chain, path];
+    const included = parseXmlFile(text, includedChain).documentElement;
+    await expandIncludes(included, entryPath, includedChain, source);
+    const doc = parent.ownerDocument;
+    Array.from(included.childNodes).forEach(node => parent.insertBefore(doc.importNode(node, true), child));
+    parent.removeChild(child);
+  }
+}
+
+export async function convertMjcfToUrdf(entryPath: string, content: string, source: ModelFileSource): Promise<string> {
+  const mujoco = parseXmlFile(content, [entryPath]).documentElement;
+  if (mujoco.tagName !== 'mujoco') throw new Error(`"${entryPath}" is not an MJCF file (root is <${mujoco.tagName}>).`);
+  await expandIncludes(mujoco, entryPath, [entryPath], source);
+
+  // --- Compiler options ---
+  const compiler: CompilerOptions = { degrees: true, eulerseq: 'xyz', meshdir: '', autolimits: true };
+  elementChildren(mujoco, 'compiler').forEach(c => {
+    if (c.hasAttribute('angle')) compiler.degrees = c.getAttribute('angle') !== 'radian';
+    if (c.hasAttribute('eulerseq')) compiler.eulerseq = c.getAttribute('eulerseq')!;
+    if (c.hasAttribute('assetdir')) compiler.meshdir = c.getAttribute('assetdir')!;
+    if (c.hasAttribute('meshdir')) compiler.meshdir = c.getAttribute('meshdir')!;
+    if (c.hasAttribute('autolimits')) compiler.autolimits = c.getAttribute('autolimits') === 'true';
+  });
+  const toRadians = (v: number) => (compiler.degrees ? THREE.MathUtils.degToRad(v) : v);
+
+  // --- Default classes ---
+  const classes = new Map<string, DefaultClass>();
+  const parseDefault = (el: Element, parent: string | null) => {
+    const name = el.getAttribute('class') || 'main';
+    const cls = classes.get(name) || { parent, attrs: new Map() };
+    classes.set(name, cls);
+    elementChildren(el).forEach(child => {
+      if (child.tagName === 'default') parseDefault(child, name);
+      else cls.attrs.set(child.tagName, { ...cls.attrs.get(child.tagName), ...attributesOf(child) });
+    });
+  };
+  elementChildren(mujoco, 'default').forEach(d => parseDefault(d, null));
+
+  // Attributes of an element after applying its default class chain (root class first)
+  const resolveAttrs = (el: Element, tag: string, activeClass: string) => {
+    const cls = el.getAttribute('class') || activeClass;
+    const chain: string[] = [];
+    for (let c: string | null = cls; c && !chain.includes(c); c = classes.get(c)?.parent ?? null) chain.unshift(c);
+    if (chain[0] !== 'main' && classes.has('main')) chain.unshift('main');
+    const merged: Record<string, string> = {};
+    chain.forEach(c => Object.assign(merged, classes.get(c)?.attrs.get(tag)));
+    return { ...merged, ...attributesOf(el) };
+  };
+
+  // --- Frames ---
+  const orientation = (attrs: Record<string, string>): THREE.Quaternion => {
+    const q = new THREE.Quaternion();
+    if (attrs.quat) {
+      const [w, x, y, z] = numbers(attrs.quat);
+      return q.set(x, y, z, w).normalize();
+    }
+    if (attrs.axisangle) {
+      const [x, y, z, a] = numbers(attrs.axisangle);
+      return q.setFromAxisAngle(new THREE.Vector3(x, y, z).normalize(), toRadians(a));
+    }
+    if (attrs.euler) {
+      const angles = numbers(attrs.euler).map(toRadians);
+      compiler.eulerseq.split('').forEach((axisName, i) => {
+        const axis = new THREE.Vector3(
+          axisName.toLowerCase() === 'x' ? 1 : 0,
+          axisName.toLowerCase() === 'y' ? 1 : 0,
+          axisName.toLowerCase() === 'z' ? 1 : 0,
+        );
+        const r = new THREE.Quaternion().setFromAxisAngle(axis, angles[i] || 0);
+        // Lowercase axes rotate with the frame (intrinsic), uppercase ones are fixed (extrinsic)
+        if (axisName === axisName.toLowerCase()) q.multiply(r);
+        else q.premultiply(r);
+      });
+      return q;
+    }
+    if (attrs.xyaxes) {
+      const v = numbers(attrs.xyaxes);
+      const x = new THREE.Vector3(v[0], v[1], v[2]).normalize();
+      const y = new THREE.Vector3(v[3], v[4], v[5]);
+      y.addScaledVector(x, -y.dot(x)).normalize();
+      const z = new THREE.Vector3().crossVectors(x, y);
+      return q.setFromRotationMatrix(new THREE.Matrix4().makeBasis(x, y, z));
+    }
+    if (attrs.zaxis) {
+      const [x, y, z] = numbers(attrs.zaxis);
+      return q.setFromUnitVectors(new THREE.Vector3(0, 0, 1), new THREE.Vector3(x, y, z).normalize());
+    }
+    return q;
+  };
+
+  const pose = (attrs: Record<string, string>) => {
+    const [x, y, z] = numbers(attrs.pos, [0, 0, 0]);
+    return new THREE.Matrix4().compose(new THREE.Vector3(x, y, z), orientation(attrs), new THREE.Vector3(1, 1, 1));
+  };
+
+  const translation = (v: THREE.Vector3) => new THREE.Matrix4().makeTranslation(v.x, v.y, v.z);
+
+  // --- Assets ---
+  const meshes = new Map<string, { filename: string; scale: [number, number, number] }>();
+  const materials = new Map<string, number[]>();
+  elementChildren(mujoco, 'asset').forEach(asset => {
+    elementChildren(asset, 'mesh').forEach(m => {
+      const attrs = resolveAttrs(m, 'mesh', 'main');
+      if (!attrs.file) return;
+      const name = attrs.name || attrs.file.split('/').pop()!.replace(/\.[^.]+$/, '');
+      const [sx, sy, sz] = numbers(attrs.scale, [1, 1, 1]);
+      meshes.set(name, { filename: joinPath(compiler.meshdir, attrs.file), scale: [sx, sy, sz] });
+    });
+    elementChildren(asset, 'material').forEach(m => {
+      const attrs = resolveAttrs(m, 'material', 'main');
+      if (attrs.name) materials.set(attrs.name, numbers(attrs.rgba, [1, 1, 1, 1]));
+    });
+  });
+
+  // Geometry of one <geom> in its body frame; capsules expand into several shapes
+  const geomShapes = (attrs: Record<string, string>): { origin: THREE.Matrix4; geometry: GeometrySpec }[] => {
+    const type = attrs.type || 'sphere';
+    const size = numbers(attrs.size, [0, 0, 0]);
+    let origin = pose(attrs);
+    let halfLength = size[1] || 0;
+
+    if (attrs.fromto && (type === 'capsule' || type === 'cylinder' || type === 'box' || type === 'ellipsoid')) {
+      const v = numbers(attrs.fromto);
+      const from = new THREE.Vector3(v[0], v[1], v[2]);
+      const to = new THREE.Vector3(v[3], v[4], v[5]);
+      const dir = new THREE.Vector3().subVectors(to, from);
+      halfLength = dir.length() / 2;
+      const q = halfLength > 0
+        ? new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), dir.clone().normalize())
+        : new THREE.Quaternion();
+      origin = new THREE.Matrix4().compose(from.clone().add(to).multiplyScalar(0.5), q, new THREE.Vector3(1, 1, 1));
+    }
+
+    switch (type) {
+      case 'sphere':
+        return [{ origin, geometry: { type: 'sphere', radius: size[0] } }];
+      case 'ellipsoid':
+        return [{ origin, geometry: { type: 'sphere', radius: Math.max(...size.slice(0, 3)) } }];
+      case 'box':
+        return [{ origin, geometry: { type: 'box', size: [size[0] * 2, size[1] * 2, size[2] * 2] } }];
+      case 'cylinder':
+        return [{ origin, geometry: { type: 'cylinder', radius: size[0], length: halfLength * 2 } }];
+      case 'capsule':
+        return capsuleGeometries(origin, size[0], halfLength * 2);
+      case 'mesh': {
+        const mesh = meshes.get(attrs.mesh || '');
+        return mesh ? [{ origin, geometry: { type: 'mesh', filename: mesh.filename, scale: mesh.scale } }] : [];
+      }
+      default:
+        return [];
+    }
+  };
+
+  // --- Kinematic tree ---
+  const { doc, robot } = createUrdfDocument(mujoco.getAttribute('model') || entryPath.split('/').pop()!.replace(/\.[^.]+$/, ''));
+  const uniqueLinkName = createNameRegistry();
+  const uniqueJointName = createNameRegistry();
+
+  const appendGeoms = (link: Element, body: Element, offset: THREE.Matrix4, activeClass: string) => {
+    elementChildren(body, 'geom').forEach(g => {
+      const attrs = resolveAttrs(g, 'geom', activeClass);
+      // Conventions: contype/conaffinity 0 marks visual-only geoms, group 3 collision-only ones
+      const visualOnly = attrs.contype === '0' && attrs.conaffinity === '0';
+      const collisionOnly = !visualOnly && attrs.group === '3';
+      // The geom's own rgba wins over its material, which wins over class defaults
+      const material = attrs.material ? materials.get(attrs.material) : undefined;
+      const rgba = g.hasAttribute('rgba') || !material ? numbers(attrs.rgba, DEFAULT_RGBA) : material;
+      geomShapes(attrs).forEach(({ origin, geometry }) => {
+        const placed = offset.clone().multiply(origin);
+        if (!collisionOnly) appendVisual(link, placed, geometry, rgba, attrs.material);
+        if (!visualOnly) appendCollision(link, placed, geometry);
+      });
+    });
+  };
+
+  const appendBodyInertial = (link: Element, body: Element, offset: THREE.Matrix4) => {
+    const inertialEl = elementChildren(body, 'inertial')[0];
+    if (!inertialEl) return;
+    const attrs = attributesOf(inertialEl);
+    const mass = parseFloat(attrs.mass || '0');
+    let inertia = { ixx: 0, iyy: 0, izz: 0, ixy: 0, ixz: 0, iyz: 0 };
+    if (attrs.fullinertia) {
+      const [ixx, iyy, izz, ixy, ixz, iyz] = numbers(attrs.fullinertia);
+      inertia = { ixx, iyy, izz, ixy, ixz, iyz };
+    } else if (attrs.diaginertia) {
+      const [ixx, iyy, izz] = numbers(attrs.diaginertia);
+      inertia = { ...inertia, ixx, iyy, izz };
+    }
+    appendInertial(link, offset.clone().multiply(pose(attrs)), mass, inertia);
+  };
+
+  const convertBody = (body: Element, parentLink: string, parentOffset: THREE.Matrix4, parentClass: string) => {
+    const activeClass = body.getAttribute('childclass') || parentClass;
+    const name = uniqueLinkName(body.getAttribute('name') || 'body');
+    const bodyPose = parentOffset.clone().multiply(pose(attributesOf(body)));
+
+    // Each MJCF joint becomes one or more URDF joint segments anchored at the joint position
+    const segments: (Omit<JointSpec, 'parent' | 'child' | 'origin'> & { anchor: THREE.Vector3 })[] = [];
+    elementChildren(body).filter(c => c.tagName === 'joint' || c.tagName === 'freejoint').forEach((j, i) => {
+      const attrs = j.tagName === 'freejoint' ? { ...attributesOf(j), type: 'free' } : resolveAttrs(j, 'joint', activeClass);
+      const jointName = attrs.name || `${name}_joint${i > 0 ? `_${i}` : ''}`;
+      const anchor = new THREE.Vector3(...numbers(attrs.pos, [0, 0, 0]));
+      const axis = new THREE.Vector3(...numbers(attrs.axis, [0, 0, 1]));
+      const range = attrs.range ? numbers(attrs.range) : null;
+      const limited = attrs.limited === 'true' || (attrs.limited !== 'false' && compiler.autolimits && range !== null);
+
+      switch (attrs.type || 'hinge') {
+        case 'hinge':
+          segments.push(limited && range
+            ? { name: jointName, type: 'revolute', axis, anchor, limit: { lower: toRadians(range[0]), upper: toRadians(range[1]) } }
+            : { name: jointName, type: 'continuous', axis, anchor });
+          break;
+        case 'slide':
+          segments.push({
+            name: jointName, type: 'prismatic', axis, anchor,
+            limit: limited && range
+              ? { lower: range[0], upper: range[1] }
+              : { lower: -UNLIMITED_PRISMATIC_RANGE, upper: UNLIMITED_PRISMATIC_RANGE },
+          });
+          break;
+        case 'ball': {
+          // The ball range is a single maximum rotation angle
+          const max = limited && range ? toRadians(Math.max(...range)) : null;
+          (['x', 'y', 'z'] as const).forEach(a => segments.push({
+            name: `${jointName}_${a}`,
+            type: max !== null ? 'revolute' : 'continuous',
+            axis: new THREE.Vector3(a === 'x' ? 1 : 0, a === 'y' ? 1 : 0, a === 'z' ? 1 : 0),
+            anchor,
+            limit: max !== null ? { lower: -max, upper: max } : undefined,
+          }));
+          break;
+        }
+        case 'free':
+          segments.push({ name: jointName, type: 'floating', anchor: new THREE.Vector3() });
+          break;
+      }
+    });
+
+    let parent = parentLink;
+    let previousAnchor = new THREE.Vector3();
+    if (segments.length === 0) {
+      appendJoint(robot, { name: uniqueJointName(`${parentLink}_to_${name}`), type: 'fixed', parent, child: name, origin: bodyPose });
+    }
+    segments.forEach((segment, i) => {
+      const isLast = i === segments.length - 1;
+      const child = isLast ? name : uniqueLinkName(`${segment.name}_link`);
+      if (!isLast) appendElement(robot, 'link', { name: child });
+      const step = translation(segment.anchor.clone().sub(previousAnchor));
+      appendJoint(robot, {
+        name: uniqueJointName(segment.name),
+        type: segment.type,
+        parent,
+        child,
+        origin: i === 0 ? bodyPose.clone().multiply(step) : step,
+        axis: segment.axis,
+        limit: segment.limit,
+      });
+      parent = child;
+      previousAnchor = segment.anchor;
+    });
+
+    // The link frame sits at the last joint anchor; body contents are shifted back accordingly
+    const offset = translation(previousAnchor.clone().negate());
+    const link = appendElement(robot, 'link', { name });
+    appendBodyInertial(link, body, offset);
+    appendGeoms(link, body, offset, activeClass);
+    elementChildren(body, 'body').forEach(child => convertBody(child, name, offset, activeClass));
+  };
+
+  const worldName = uniqueLinkName('world');
+  const world = appendElement(robot, 'link', { name: worldName });
+  elementChildren(mujoco, 'worldbody').forEach(worldbody => {
+    appendGeoms(world, worldbody, new THREE.Matrix4(), 'main');
+    elementChildren(worldbody, 'body').forEach(body => convertBody(body, worldName, new THREE.Matrix4(), 'main'));
+  });
+
+  return serializeUrdf(doc);
+}
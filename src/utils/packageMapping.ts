@@ -0,0 +1,70 @@
+// Where a ROS package lives: a folder of the dropped tree (a key prefix of the file map) or a URL prefix
+export interface PackageMapping {
+  type: 'folder' | 'url';
+  target: string;
+}
+
+export type PackageMappings = Record<string, PackageMapping>;
+
+const STORAGE_PREFIX = 'urdf-viewer:packages:';
+
+// Every package referenced as package://<name>/... in the model
+export function findPackageNames(source: string): string[] {
+  const names = new Set<string>();
+  const regex = /package:\/\/([^/"'\s<>]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(source)) !== null) names.add(match[1]);
+  return Array.from(names).sort();
+}
+
+// Reads every package.xml of the dropped tree and maps its <name> to the folder containing it
+export async function detectPackageFolders(files: Map<string, File>): Promise<PackageMappings> {
+  const mappings: PackageMappings = {};
+  for (const [path, file] of files) {
+    if (path !== 'package.xml' && !path.endsWith('/package.xml')) continue;
+    const doc = new DOMParser().parseFromString(await file.text(), 'text/xml');
+    const name = doc.getElementsByTagName('name')[0]?.textContent?.trim();
+    if (name && !mappings[name]) {
+      mappings[name] = { type: 'folder', target: path.slice(0, Math.max(0, path.length - '/package.xml'.length)) };
+    }
+  }
+  return mappings;
+}
+
+// All folders of the dropped tree, for choosing a mapping target
+export function listFolders(files: Map<string, File>): string[] {
+  const folders = new Set<string>();
+  files.forEach((_, path) => {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) folders.add(parts.slice(0, i).join('/'));
+  });
+  return Array.from(folders).sort();
+}
+
+// Applies a mapping to a package:// URI; null if the package is not mapped
+export function resolvePackageUri(uri: string, mappings: PackageMappings): PackageMapping | null {
+  const match = uri.match(/^package:\/\/([^/]+)\/?(.*)$/);
+  const mapping = match && mappings[match[1]];
+  if (!match || !mapping || (mapping.type === 'url' && !mapping.target)) return null;
+  const prefix = mapping.target.replace(/\/+$/, '');
+  return { type: mapping.type, target: prefix ? `${prefix}/${match[2]}` : match[2] };
+}
+
+// Mappings are remembered per model (sample URL or entry path of the dropped folder)
+export function loadPackageMappings(modelKey: string): PackageMappings {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + modelKey);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function savePackageMappings(modelKey: string, mappings: PackageMappings) {
+  try {
+    if (Object.keys(mappings).length > 0) localStorage.setItem(STORAGE_PREFIX + modelKey, JSON.stringify(mappings));
+    else localStorage.removeItem(STORAGE_PREFIX + modelKey);
+  } catch {
+    // Storage may be unavailable (private mode, quota); mappings then only last for the session
+  }
+}
@@ -0,0 +1,44 @@
+// One entry of public/files.json, as written by scripts/generate_manifest.js
+export interface SampleInfo {
+  // Relative to the app
+  path: string;
+  name: string | null;
+  format: 'urdf' | 'xacro' | 'mjcf' | 'sdf';
+  // null when only known after expanding the model (xacro macros, MJCF masses from geoms)
+  links: number | null;
+  joints: number | null;
+  dof: number | null;
+  mass: number | null;
+  meshFormats: string[];
+  license: string | null;
+  thumbnail: string | null;
+}
+
+const formatOf = (path: string): SampleInfo['format'] => {
+  const lower = path.toLowerCase();
+  if (lower.endsWith('.urdf')) return 'urdf';
+  if (lower.endsWith('.xacro')) return 'xacro';
+  if (lower.endsWith('.xml')) return 'mjcf';
+  return 'sdf';
+};
+
+// Manifests from before the metadata were a plain list of paths
+export function parseManifest(json: unknown): SampleInfo[] {
+  if (!Array.isArray(json)) return [];
+  return json.flatMap((entry): SampleInfo[] => {
+    if (typeof entry === 'string') {
+      return [{
+        path: entry, name: null, format: formatOf(entry), links: null, joints: null, dof: null, mass: null,
+        meshFormats: [], license: null, thumbnail: null,
+      }];
+    }
+    if (entry && typeof entry.path === 'string') return [{ ...entry, meshFormats: entry.meshFormats ?? [] }];
+    return [];
+  });
+}
+
+// Every word of the query must appear in the path, name, format or a mesh format
+export function matchesQuery(sample: SampleInfo, query: string): boolean {
+  const haystack = [sample.path, sample.name ?? '', sample.format, ...sample.meshFormats].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
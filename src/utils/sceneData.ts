@@ -0,0 +1,180 @@
+import * as THREE from 'three';
+import { TGALoader } from 'three/examples/jsm/loaders/TGALoader.js';
+import { fromGeometryData, geometryBuffers, GeometryData, toGeometryData } from './geometryData';
+
+// An object tree decoded on a worker (COLLADA scenes), as plain data for postMessage. Geometries and
+// materials are listed once and referenced by index, so what the file shares stays shared.
+
+export interface TextureData {
+  // As the loader requested it; it is loaded on the main thread, through the URL modifier
+  url: string;
+  wrapS: THREE.Wrapping;
+  wrapT: THREE.Wrapping;
+  offset: [number, number];
+  repeat: [number, number];
+  colorSpace: THREE.ColorSpace;
+}
+
+export interface MaterialData {
+  type: string;
+  values: Record<string, number | boolean | string>;
+  colors: Record<string, number[]>;
+  textures: Record<string, TextureData>;
+  normalScale: [number, number] | null;
+}
+
+export interface NodeData {
+  type: 'Group' | 'Mesh' | 'LineSegments' | 'Line' | 'Points';
+  name: string;
+  // Local transform, column-major
+  matrix: number[];
+  geometry: number | null;
+  material: number | number[] | null;
+  children: NodeData[];
+}
+
+export interface SceneData {
+  root: NodeData;
+  geometries: GeometryData[];
+  materials: MaterialData[];
+}
+
+const MATERIAL_VALUES = ['name', 'opacity', 'transparent', 'side', 'flatShading', 'vertexColors', 'shininess', 'reflectivity', 'depthWrite', 'wireframe'];
+const MATERIAL_COLORS = ['color', 'specular', 'emissive'];
+const MATERIAL_TEXTURES = ['map', 'specularMap', 'emissiveMap', 'normalMap', 'bumpMap', 'lightMap', 'aoMap', 'alphaMap'];
+
+// The materials the loaders decoded on workers create; anything else becomes Phong
+const MATERIAL_TYPES: Record<string, new () => THREE.Material> = {
+  MeshPhongMaterial: THREE.MeshPhongMaterial,
+  MeshLambertMaterial: THREE.MeshLambertMaterial,
+  MeshBasicMaterial: THREE.MeshBasicMaterial,
+  LineBasicMaterial: THREE.LineBasicMaterial,
+  PointsMaterial: THREE.PointsMaterial,
+};
+
+type MaterialRecord = Record<string, unknown>;
+
+const nodeType = (object: THREE.Object3D): NodeData['type'] => {
+  if ((object as THREE.Mesh).isMesh) return 'Mesh';
+  if ((object as THREE.LineSegments).isLineSegments) return 'LineSegments';
+  if ((object as THREE.Line).isLine) return 'Line';
+  if ((object as THREE.Points).isPoints) return 'Points';
+  // Cameras and lights of the file are left out; their children are kept
+  return 'Group';
+};
+
+/**
+ * Flattens an object tree for the main thread. Textures are expected to be unloaded placeholders that
+ * carry the requested URL in `userData.url` (see workers/loaderWorker.ts).
+ */
+export function toSceneData(root: THREE.Object3D): { scene: SceneData; transfer: ArrayBuffer[] } {
+  const geometries = new Map<THREE.BufferGeometry, number>();
+  const materials = new Map<THREE.Material, number>();
+  const scene: SceneData = { root: null!, geometries: [], materials: [] };
+
+  const addGeometry = (geometry: THREE.BufferGeometry) => {
+    if (!geometries.has(geometry)) {
+      geometries.set(geometry, scene.geometries.length);
+      scene.geometries.push(toGeometryData(geometry));
+    }
+    return geometries.get(geometry)!;
+  };
+
+  const addMaterial = (material: THREE.Material) => {
+    if (materials.has(material)) return materials.get(material)!;
+    const record = material as unknown as MaterialRecord;
+    const data: MaterialData = { type: material.type, values: {}, colors: {}, textures: {}, normalScale: null };
+    MATERIAL_VALUES.forEach(key => {
+      const value = record[key];
+      if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') data.values[key] = value;
+    });
+    MATERIAL_COLORS.forEach(key => {
+      const color = record[key] as THREE.Color | undefined;
+      if (color?.isColor) data.colors[key] = color.toArray();
+    });
+    MATERIAL_TEXTURES.forEach(key => {
+      const texture = record[key] as THREE.Texture | null | undefined;
+      if (!texture?.userData.url) return;
+      data.textures[key] = {
+        url: texture.userData.url,
+        wrapS: texture.wrapS,
+        wrapT: texture.wrapT,
+        offset: [texture.offset.x, texture.offset.y],
+        repeat: [texture.repeat.x, texture.repeat.y],
+        colorSpace: texture.colorSpace,
+      };
+    });
+    const normalScale = record.normalScale as THREE.Vector2 | undefined;
+    if (normalScale?.isVector2) data.normalScale = [normalScale.x, normalScale.y];
+    materials.set(material, scene.materials.length);
+    scene.materials.push(data);
+    return scene.materials.length - 1;
+  };
+
+  const toNode = (object: THREE.Object3D): NodeData => {
+    object.updateMatrix();
+    const type = nodeType(object);
+    const drawable = object as THREE.Mesh;
+    return {
+      type,
+      name: object.name,
+      matrix: object.matrix.toArray(),
+      geometry: type === 'Group' ? null : addGeometry(drawable.geometry),
+      material: type === 'Group' ? null
+        : Array.isArray(drawable.material) ? drawable.material.map(addMaterial) : addMaterial(drawable.material),
+      children: object.children.map(toNode),
+    };
+  };
+
+  scene.root = toNode(root);
+  const transfer = new Set(scene.geometries.flatMap(geometryBuffers));
+  return { scene, transfer: Array.from(transfer) };
+}
+
+// Rebuilds the object tree, loading the textures through `manager` as the loader itself would have
+export function fromSceneData(scene: SceneData, manager: THREE.LoadingManager): THREE.Object3D {
+  const textureLoader = new THREE.TextureLoader(manager);
+  const tgaLoader = new TGALoader(manager);
+  const textures = new Map<string, THREE.Texture>();
+  const loadTexture = (data: TextureData) => {
+    const key = JSON.stringify(data);
+    if (!textures.has(key)) {
+      const texture = /\.tga$/i.test(data.url) ? tgaLoader.load(data.url) : textureLoader.load(data.url);
+      texture.wrapS = data.wrapS;
+      texture.wrapT = data.wrapT;
+      texture.offset.fromArray(data.offset);
+      texture.repeat.fromArray(data.repeat);
+      texture.colorSpace = data.colorSpace;
+      textures.set(key, texture);
+    }
+    return textures.get(key)!;
+  };
+
+  const geometries = scene.geometries.map(fromGeometryData);
+  const materials = scene.materials.map(data => {
+    const material = new (MATERIAL_TYPES[data.type] ?? THREE.MeshPhongMaterial)();
+    const record = material as unknown as MaterialRecord;
+    Object.assign(material, data.values);
+    Object.entries(data.colors).forEach(([key, rgb]) => (record[key] as THREE.Color | undefined)?.fromArray(rgb));
+    Object.entries(data.textures).forEach(([key, texture]) => { record[key] = loadTexture(texture); });
+    if (data.normalScale) (record.normalScale as THREE.Vector2 | undefined)?.fromArray(data.normalScale);
+    return material;
+  });
+
+  const toObject = (node: NodeData): THREE.Object3D => {
+    const geometry = node.geometry !== null ? geometries[node.geometry] : undefined;
+    const material = node.material === null ? undefined
+      : Array.isArray(node.material) ? node.material.map(i => materials[i]) : materials[node.material];
+    const object = node.type === 'Mesh' ? new THREE.Mesh(geometry, material)
+      : node.type === 'LineSegments' ? new THREE.LineSegments(geometry, material)
+      : node.type === 'Line' ? new THREE.Line(geometry, material)
+      : node.type === 'Points' ? new THREE.Points(geometry, material)
+      : new THREE.Group();
+    object.name = node.name;
+    new THREE.Matrix4().fromArray(node.matrix).decompose(object.position, object.quaternion, object.scale);
+    node.children.forEach(child => object.add(toObject(child)));
+    return object;
+  };
+
+  return toObject(scene.root);
+}
@@ -0,0 +1,68 @@
+import * as THREE from 'three';
+import { URDFRobot } from 'urdf-loader';
+import { isScalarJoint } from './urdfDescription';
+
+// Root pose of a robot in the scene, as a URDF origin: metres, and roll/pitch/yaw in radians
+export interface RobotOrigin {
+  xyz: [number, number, number];
+  rpy: [number, number, number];
+}
+
+export interface RobotPlacement {
+  visible: boolean;
+  origin: RobotOrigin;
+}
+
+// A robot kept in the scene while other models are opened
+export interface SceneRobot extends RobotPlacement {
+  id: number;
+  // File the robot was loaded from
+  label: string;
+  robot: URDFRobot;
+  // Prepended to its link and joint names, so several copies of a model can be told apart
+  prefix: string;
+}
+
+// Id of the model opened last, which the loading, validation and source panels work on
+export const LOADED_ROBOT_ID = 0;
+
+export const defaultPlacement = (): RobotPlacement => ({ visible: true, origin: { xyz: [0, 0, 0], rpy: [0, 0, 0] } });
+
+// URDF rpy are fixed-axis X, Y, Z rotations, which is three's intrinsic 'ZYX' order
+export function applyPlacement(robot: THREE.Object3D, { visible, origin }: RobotPlacement) {
+  robot.visible = visible;
+  robot.position.set(...origin.xyz);
+  robot.rotation.set(origin.rpy[0], origin.rpy[1], origin.rpy[2], 'ZYX');
+}
+
+export function readOrigin(robot: THREE.Object3D): RobotOrigin {
+  const rpy = new THREE.Euler().setFromQuaternion(robot.quaternion, 'ZYX');
+  return { xyz: robot.position.toArray(), rpy: [rpy.x, rpy.y, rpy.z] };
+}
+
+/**
+ * Renames every link and joint to `prefix` + its name in the URDF and rekeys the robot's lookup
+ * tables, so setJointValue and name-based selection keep working. An empty prefix restores the names.
+ */
+export function setNamePrefix(robot: URDFRobot, prefix: string) {
+  const rename = <T extends THREE.Object3D & { urdfName: string }>(items: Record<string, T>) => {
+    const renamed: Record<string, T> = {};
+    Object.values(items).forEach(item => {
+      item.name = prefix + item.urdfName;
+      renamed[item.name] = item;
+    });
+    return renamed;
+  };
+  robot.links = rename(robot.links);
+  robot.joints = rename(robot.joints);
+  robot.frames = { ...robot.colliders, ...robot.visual, ...robot.links, ...robot.joints };
+}
+
+// Current positions of the joints posed by one number, keyed by their (prefixed) names
+export function readJointValues(robot: URDFRobot): Record<string, number> {
+  const values: Record<string, number> = {};
+  Object.values(robot.joints).forEach(j => {
+    if (isScalarJoint(j)) values[j.name] = j.angle as number || 0;
+  });
+  return values;
+}
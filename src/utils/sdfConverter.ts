@@ -0,0 +1,520 @@
+import * as THREE from 'three';
+import { IncludeError, ModelFileSource, dirname, parseXmlFile } from './fileSource';
+import {
+  GeometrySpec, JointSpec, UNLIMITED_PRISMATIC_RANGE, appendCollision, appendElement, appendInertial, appendJoint,
+  appendVisual, capsuleGeometries, createNameRegistry, createUrdfDocument, serializeUrdf,
+} from './urdfBuilder';
+
+// SDFormat (Gazebo) importer. Like MJCF, the model is translated into URDF text so it goes
+// through the same loading pipeline as URDF files.
+//  - every pose is resolved to the world frame first, following `relative_to` (or the legacy
+//    `frame`) attribute and SDF's default frames, then re-expressed in URDF joint frames
+//  - ball joints become three continuous joints, universal/revolute2 joints two revolute joints
+//  - model:// URIs are written as package:// URIs, so the Packages dialog can map them
+//  - worlds hang every model below a shared "world" link: fixed if static, floating otherwise
+//  - names inside a world or nested model are scoped like SDF does it ("model::link")
+
+export const isSdfFile = (filename: string) => /\.(sdf|world)$/i.test(filename) || /(^|\/)model\.config$/i.test(filename);
+
+interface FrameNode {
+  relativeTo: string;
+  pose: THREE.Matrix4;
+}
+
+interface ModelScope {
+  // Prefix of the names declared in the model ("arm::"), empty for a lone model
+  prefix: string;
+  // Frame that `__model__` and omitted `relative_to` attributes refer to
+  frame: string;
+  // File the model was read from; relative URIs are resolved against it
+  filePath: string;
+  isStatic: boolean;
+}
+
+interface LinkEntry {
+  key: string;
+  el: Element;
+  scope: ModelScope;
+}
+
+interface JointEntry {
+  key: string;
+  el: Element;
+  scope: ModelScope;
+  parent: string;
+  child: string;
+}
+
+// Limits at or beyond this magnitude are SDF's way of saying "unlimited"
+const UNLIMITED = 1e15;
+
+// Colors of the stock Gazebo material scripts
+const GAZEBO_COLORS: Record<string, number[]> = {
+  'Gazebo/White': [1, 1, 1, 1],
+  'Gazebo/Grey': [0.7, 0.7, 0.7, 1],
+  'Gazebo/DarkGrey': [0.35, 0.35, 0.35, 1],
+  'Gazebo/Black': [0.05, 0.05, 0.05, 1],
+  'Gazebo/Red': [1, 0, 0, 1],
+  'Gazebo/Green': [0, 1, 0, 1],
+  'Gazebo/Blue': [0, 0, 1, 1],
+  'Gazebo/Yellow': [1, 1, 0, 1],
+  'Gazebo/Orange': [1, 0.5, 0.05, 1],
+  'Gazebo/Purple': [1, 0, 1, 1],
+  'Gazebo/Turquoise': [0, 1, 1, 1],
+  'Gazebo/Wood': [0.55, 0.35, 0.2, 1],
+};
+
+const elementChildren = (el: Element, tag?: string) =>
+  Array.from(el.children).filter(c => !tag || c.tagName === tag);
+
+const child = (el: Element | undefined, tag: string): Element | undefined =>
+  el ? elementChildren(el, tag)[0] : undefined;
+
+const text = (el: Element | undefined) => el?.textContent?.trim() ?? '';
+
+const numbers = (value: string, fallback: number[] = []) =>
+  value ? value.split(/\s+/).map(Number) : fallback;
+
+const childNumber = (el: Element | undefined, tag: string, fallback: number) => {
+  const value = text(child(el, tag));
+  return value ? parseFloat(value) : fallback;
+};
+
+const parsePose = (poseEl: Element | undefined) => {
+  const matrix = new THREE.Matrix4();
+  if (!poseEl) return matrix;
+  const v = numbers(text(poseEl), [0, 0, 0, 0, 0, 0]);
+  const position = new THREE.Vector3(v[0] || 0, v[1] || 0, v[2] || 0);
+  const quaternion = new THREE.Quaternion();
+  if (poseEl.getAttribute('rotation_format') === 'quat_xyzw') {
+    quaternion.set(v[3] || 0, v[4] || 0, v[5] || 0, v[6] ?? 1).normalize();
+  } else {
+    const toRadians = (a: number) => (poseEl.getAttribute('degrees') === 'true' ? THREE.MathUtils.degToRad(a) : a);
+    // SDF rpy is fixed-axis roll-pitch-yaw, like URDF
+    quaternion.setFromEuler(new THREE.Euler(toRadians(v[3] || 0), toRadians(v[4] || 0), toRadians(v[5] || 0), 'ZYX'));
+  }
+  return matrix.compose(position, quaternion, new THREE.Vector3(1, 1, 1));
+};
+
+const poseReference = (poseEl: Element | undefined) =>
+  poseEl?.getAttribute('relative_to') || poseEl?.getAttribute('frame') || '';
+
+export async function convertSdfToUrdf(entryPath: string, content: string, source: ModelFileSource): Promise<string> {
+  let root = parseXmlFile(content, [entryPath]).documentElement;
+
+  // A model.config names the SDF file of the model
+  if (root.tagName === 'model' && child(root, 'sdf')) {
+    const sdfPath = pickConfigSdf(root, entryPath, source);
+    const sdfContent = await source.read(sdfPath);
+    if (sdfContent === null) throw new IncludeError(`Cannot find "${sdfPath}" named by model.config`, [entryPath, sdfPath]);
+    entryPath = sdfPath;
+    root = parseXmlFile(sdfContent, [entryPath]).documentElement;
+  }
+  if (root.tagName !== 'sdf') throw new Error(`"${entryPath}" is not an SDF file (root is <${root.tagName}>).`);
+
+  const frames = new Map<string, FrameNode>();
+  const links: LinkEntry[] = [];
+  const joints: JointEntry[] = [];
+  // Model frame -> its canonical link, used when a joint names a model as parent or child
+  const canonicalLinks = new Map<string, string>();
+  const staticModels = new Set<string>();
+  const skipped: string[] = [];
+
+  const resolveRef = (ref: string, scope: ModelScope) => {
+    if (!ref || ref === '__model__') return scope.frame;
+    if (ref === 'world') return 'world';
+    return scope.prefix + ref;
+  };
+
+  const addFrame = (key: string, poseEl: Element | undefined, defaultRef: string, scope: ModelScope) => {
+    const ref = poseReference(poseEl);
+    frames.set(key, { relativeTo: ref ? resolveRef(ref, scope) : defaultRef, pose: parsePose(poseEl) });
+  };
+
+  // Reads the <model> an <include> points to; null when the file is missing or holds no model
+  const loadInclude = async (includeEl: Element, chain: string[]) => {
+    const uri = text(child(includeEl, 'uri'));
+    const base = uri.startsWith('model://') ? `package://${uri.slice('model://'.length)}` : uri;
+    let path: string;
+    if (/\.(sdf|world)$/i.test(base)) {
+      path = source.resolve(base, chain[chain.length - 1]);
+    } else {
+      const dir = base.replace(/\/+$/, '');
+      const configPath = source.resolve(`${dir}/model.config`, chain[chain.length - 1]);
+      // Local folders fall back to matching file names only; a model.config of another model is no match
+      const matches = !uri.startsWith('model://') || configPath.endsWith(`${dir.slice('package://'.length)}/model.config`);
+      const config = matches ? await source.read(configPath) : null;
+      path = config !== null
+        ? pickConfigSdf(parseXmlFile(config, [...chain, configPath]).documentElement, configPath, source)
+        : source.resolve(`${dir}/model.sdf`, chain[chain.length - 1]);
+    }
+    if (chain.includes(path)) throw new IncludeError(`Include cycle: "${path}" includes itself`, [...chain, path]);
+    const included = await source.read(path);
+    if (included === null) {
+      skipped.push(`include "${uri}" (not found)`);
+      return null;
+    }
+    const model = child(parseXmlFile(included, [...chain, path]).documentElement, 'model');
+    if (!model) {
+      skipped.push(`include "${uri}" (no <model>)`);
+      return null;
+    }
+    return { model, path };
+  };
+
+  // Registers the frames, links and joints of a model and of its nested models
+  const addModel = async (
+    modelEl: Element, key: string, prefix: string, parent: ModelScope, filePath: string, chain: string[],
+    overrides: { pose?: Element; isStatic?: boolean } = {},
+  ) => {
+    const scope: ModelScope = {
+      prefix,
+      frame: key,
+      filePath,
+      isStatic: overrides.isStatic ?? (text(child(modelEl, 'static')) === 'true' || parent.isStatic),
+    };
+    addFrame(key, overrides.pose ?? child(modelEl, 'pose'), parent.frame, parent);
+    if (scope.isStatic) staticModels.add(key);
+
+    elementChildren(modelEl, 'link').forEach(link => {
+      const linkKey = prefix + link.getAttribute('name');
+      addFrame(linkKey, child(link, 'pose'), scope.frame, scope);
+      links.push({ key: linkKey, el: link, scope });
+    });
+    elementChildren(modelEl, 'frame').forEach(frame => {
+      const attachedTo = resolveRef(frame.getAttribute('attached_to') || '', scope);
+      addFrame(prefix + frame.getAttribute('name'), child(frame, 'pose'), attachedTo, scope);
+    });
+    elementChildren(modelEl, 'joint').forEach(joint => {
+      const parentRef = resolveRef(text(child(joint, 'parent')), scope);
+      const childRef = resolveRef(text(child(joint, 'child')), scope);
+      const jointKey = prefix + joint.getAttribute('name');
+      addFrame(jointKey, child(joint, 'pose'), childRef, scope);
+      joints.push({ key: jointKey, el: joint, scope, parent: parentRef, child: childRef });
+    });
+
+    for (const nested of elementChildren(modelEl)) {
+      if (nested.tagName === 'model') {
+        const nestedKey = prefix + nested.getAttribute('name');
+        await addModel(nested, nestedKey, `${nestedKey}::`, scope, filePath, chain);
+      } else if (nested.tagName === 'include') {
+        const included = await loadInclude(nested, chain);
+        if (!included) continue;
+        const nestedKey = prefix + (text(child(nested, 'name')) || included.model.getAttribute('name'));
+        await addModel(included.model, nestedKey, `${nestedKey}::`, scope, included.path, [...chain, included.path], {
+          pose: child(nested, 'pose'),
+          isStatic: child(nested, 'static') ? text(child(nested, 'static')) === 'true' : undefined,
+        });
+      }
+    }
+
+    const canonical = modelEl.getAttribute('canonical_link');
+    const firstLink = elementChildren(modelEl, 'link')[0];
+    const firstNested = elementChildren(modelEl).find(c => c.tagName === 'model' || c.tagName === 'include');
+    const canonicalKey = canonical
+      ? resolveRef(canonical, scope)
+      : firstLink ? prefix + firstLink.getAttribute('name')
+      : firstNested ? canonicalLinks.get(prefix + (text(child(firstNested, 'name')) || firstNested.getAttribute('name')))
+      : undefined;
+    if (canonicalKey) canonicalLinks.set(key, canonicalKey);
+  };
+
+  const worldScope: ModelScope = { prefix: '', frame: 'world', filePath: entryPath, isStatic: false };
+  const world = child(root, 'world');
+  let robotName: string;
+  if (world) {
+    robotName = world.getAttribute('name') || 'world';
+    const uniqueModelName = createNameRegistry();
+    elementChildren(world, 'frame').forEach(frame => {
+      const attachedTo = resolveRef(frame.getAttribute('attached_to') || '', worldScope);
+      addFrame(frame.getAttribute('name') || '', child(frame, 'pose'), attachedTo, worldScope);
+    });
+    for (const el of elementChildren(world)) {
+      if (el.tagName === 'model') {
+        const name = uniqueModelName(el.getAttribute('name') || 'model');
+        await addModel(el, name, `${name}::`, worldScope, entryPath, [entryPath]);
+      } else if (el.tagName === 'include') {
+        const included = await loadInclude(el, [entryPath]);
+        if (!included) continue;
+        const name = uniqueModelName(text(child(el, 'name')) || included.model.getAttribute('name') || 'model');
+        await addModel(included.model, name, `${name}::`, worldScope, included.path, [entryPath, included.path], {
+          pose: child(el, 'pose'),
+          isStatic: child(el, 'static') ? text(child(el, 'static')) === 'true' : undefined,
+        });
+      }
+    }
+  } else {
+    const models = elementChildren(root, 'model');
+    if (models.length === 0) throw new Error(`"${entryPath}" contains no <model> or <world>.`);
+    robotName = models[0].getAttribute('name') || entryPath.split('/').pop()!.replace(/\.[^.]+$/, '');
+    if (models.length === 1) {
+      await addModel(models[0], '__model__', '', worldScope, entryPath, [entryPath]);
+    } else {
+      for (const model of models) {
+        const name = model.getAttribute('name') || 'model';
+        await addModel(model, name, `${name}::`, worldScope, entryPath, [entryPath]);
+      }
+    }
+  }
+  if (links.length === 0) throw new Error(`"${entryPath}" contains no links.`);
+
+  // --- Frames ---
+  const worldPoses = new Map<string, THREE.Matrix4>([['world', new THREE.Matrix4()]]);
+  const worldPose = (key: string, visiting: string[] = []): THREE.Matrix4 => {
+    const known = worldPoses.get(key);
+    if (known) return known;
+    if (visiting.includes(key)) throw new Error(`Frame cycle: ${[...visiting, key].join(' → ')}`);
+    const node = frames.get(key);
+    if (!node) throw new Error(`Unknown frame "${key}"${visiting.length ? ` (referenced by "${visiting[visiting.length - 1]}")` : ''}`);
+    const pose = worldPose(node.relativeTo, [...visiting, key]).clone().multiply(node.pose);
+    worldPoses.set(key, pose);
+    return pose;
+  };
+
+  // Pose of a <visual>, <collision> or <inertial> in the world
+  const elementPose = (el: Element, link: LinkEntry) => {
+    const poseEl = child(el, 'pose');
+    const ref = poseReference(poseEl);
+    return worldPose(ref ? resolveRef(ref, link.scope) : link.key).clone().multiply(parsePose(poseEl));
+  };
+
+  const asLink = (key: string) => canonicalLinks.get(key) ?? key;
+
+  // --- Kinematic tree ---
+  const linkKeys = new Set(links.map(l => l.key));
+  const parentJoint = new Map<string, JointEntry>();
+  const childJoints = new Map<string, JointEntry[]>();
+  joints.forEach(joint => {
+    const parent = asLink(joint.parent);
+    const childLink = asLink(joint.child);
+    if (!linkKeys.has(childLink)) throw new Error(`Joint "${joint.key}" has unknown child link "${joint.child}"`);
+    if (parent !== 'world' && !linkKeys.has(parent)) throw new Error(`Joint "${joint.key}" has unknown parent link "${joint.parent}"`);
+    // URDF is a tree: a second joint into the same link (a kinematic loop) cannot be represented
+    if (parentJoint.has(childLink)) {
+      skipped.push(`joint "${joint.key}" (closes a kinematic loop)`);
+      return;
+    }
+    parentJoint.set(childLink, joint);
+    childJoints.set(parent, [...(childJoints.get(parent) || []), joint]);
+  });
+
+  const roots = links.filter(l => !parentJoint.has(l.key));
+  const needsWorldLink = !!world || roots.length !== 1 || childJoints.has('world');
+
+  const { doc, robot } = createUrdfDocument(robotName);
+  skipped.forEach(s => robot.appendChild(doc.createComment(` Skipped ${s} `)));
+  const uniqueLinkName = createNameRegistry();
+  const uniqueJointName = createNameRegistry();
+  // Reserve the SDF names first so generated intermediate links never take them
+  const linkNames = new Map(links.map(l => [l.key, uniqueLinkName(l.key)]));
+  joints.forEach(j => uniqueJointName(j.key));
+  const worldName = needsWorldLink ? uniqueLinkName('world') : '';
+  linkNames.set('world', worldName);
+
+  // Frame of each generated URDF link in the world
+  const urdfFrames = new Map<string, THREE.Matrix4>([['world', new THREE.Matrix4()]]);
+
+  const meshUri = (uri: string, filePath: string) => {
+    if (uri.startsWith('model://')) return `package://${uri.slice('model://'.length)}`;
+    if (/^[a-z][a-z0-9+.-]*:/i.test(uri) || uri.startsWith('/')) return uri;
+    // Relative to the entry file is what the URL modifier expects; other files get a resolved path
+    return dirname(filePath) === dirname(entryPath) ? uri : source.resolve(uri, filePath);
+  };
+
+  const geometryShapes = (geometryEl: Element | undefined, origin: THREE.Matrix4, filePath: string): { origin: THREE.Matrix4; geometry: GeometrySpec }[] => {
+    const shape = geometryEl?.children[0];
+    if (!shape) return [];
+    switch (shape.tagName) {
+      case 'box': {
+        const [x, y, z] = numbers(text(child(shape, 'size')), [1, 1, 1]);
+        return [{ origin, geometry: { type: 'box', size: [x, y, z] } }];
+      }
+      case 'sphere':
+        return [{ origin, geometry: { type: 'sphere', radius: childNumber(shape, 'radius', 1) } }];
+      case 'cylinder':
+        return [{ origin, geometry: { type: 'cylinder', radius: childNumber(shape, 'radius', 1), length: childNumber(shape, 'length', 1) } }];
+      case 'capsule':
+        return capsuleGeometries(origin, childNumber(shape, 'radius', 0.5), childNumber(shape, 'length', 1));
+      case 'ellipsoid':
+        return [{ origin, geometry: { type: 'sphere', radius: Math.max(...numbers(text(child(shape, 'radii')), [1, 1, 1])) } }];
+      case 'mesh': {
+        const uri = text(child(shape, 'uri'));
+        if (!uri) return [];
+        const [sx, sy, sz] = numbers(text(child(shape, 'scale')), [1, 1, 1]);
+        return [{ origin, geometry: { type: 'mesh', filename: meshUri(uri, filePath), scale: [sx, sy, sz] } }];
+      }
+      default:
+        // Planes, heightmaps and polylines have no URDF counterpart
+        return [];
+    }
+  };
+
+  const visualColor = (visual: Element): number[] | undefined => {
+    const material = child(visual, 'material');
+    const colorText = text(child(material, 'diffuse')) || text(child(material, 'ambient'));
+    let rgba = colorText ? numbers(colorText) : GAZEBO_COLORS[text(child(child(material, 'script'), 'name'))];
+    if (!rgba) return undefined;
+    rgba = [rgba[0], rgba[1], rgba[2], rgba[3] ?? 1];
+    const transparency = childNumber(visual, 'transparency', 0);
+    if (transparency > 0) rgba[3] *= 1 - transparency;
+    return rgba;
+  };
+
+  const appendLink = (link: LinkEntry) => {
+    const frame = urdfFrames.get(link.key)!;
+    const toLinkFrame = (worldMatrix: THREE.Matrix4) => frame.clone().invert().multiply(worldMatrix);
+    const urdfLink = appendElement(robot, 'link', { name: linkNames.get(link.key)! });
+
+    const inertial = child(link.el, 'inertial');
+    if (inertial) {
+      const inertia = child(inertial, 'inertia');
+      appendInertial(urdfLink, toLinkFrame(elementPose(inertial, link)), childNumber(inertial, 'mass', 1), {
+        ixx: childNumber(inertia, 'ixx', 1), iyy: childNumber(inertia, 'iyy', 1), izz: childNumber(inertia, 'izz', 1),
+        ixy: childNumber(inertia, 'ixy', 0), ixz: childNumber(inertia, 'ixz', 0), iyz: childNumber(inertia, 'iyz', 0),
+      });
+    }
+    elementChildren(link.el, 'visual').forEach(visual => {
+      const rgba = visualColor(visual);
+      geometryShapes(child(visual, 'geometry'), toLinkFrame(elementPose(visual, link)), link.scope.filePath)
+        .forEach(({ origin, geometry }) => appendVisual(urdfLink, origin, geometry, rgba));
+    });
+    elementChildren(link.el, 'collision').forEach(collision => {
+      geometryShapes(child(collision, 'geometry'), toLinkFrame(elementPose(collision, link)), link.scope.filePath)
+        .forEach(({ origin, geometry }) => appendCollision(urdfLink, origin, geometry));
+    });
+  };
+
+  // Axis of an <axis>/<axis2> element in the joint frame
+  const jointAxis = (axisEl: Element | undefined, joint: JointEntry) => {
+    const xyzEl = child(axisEl, 'xyz');
+    const axis = new THREE.Vector3(...numbers(text(xyzEl), [0, 0, 1]));
+    let expressedIn = xyzEl?.getAttribute('expressed_in') || '';
+    if (!expressedIn && text(child(axisEl, 'use_parent_model_frame')) === 'true') expressedIn = '__model__';
+    if (expressedIn) {
+      const rotation = new THREE.Quaternion().setFromRotationMatrix(worldPose(resolveRef(expressedIn, joint.scope)));
+      const jointRotation = new THREE.Quaternion().setFromRotationMatrix(worldPose(joint.key));
+      axis.applyQuaternion(rotation).applyQuaternion(jointRotation.invert());
+    }
+    return axis;
+  };
+
+  const axisLimit = (axisEl: Element | undefined) => {
+    const limit = child(axisEl, 'limit');
+    const lower = childNumber(limit, 'lower', -Infinity);
+    const upper = childNumber(limit, 'upper', Infinity);
+    return Math.abs(lower) < UNLIMITED && Math.abs(upper) < UNLIMITED ? { lower, upper } : null;
+  };
+
+  const revoluteAbout = (name: string, axisEl: Element | undefined, joint: JointEntry): Omit<JointSpec, 'parent' | 'child' | 'origin'> => {
+    const limit = axisLimit(axisEl);
+    return limit
+      ? { name, type: 'revolute', axis: jointAxis(axisEl, joint), limit }
+      : { name, type: 'continuous', axis: jointAxis(axisEl, joint) };
+  };
+
+  // URDF joint segments of an SDF joint, all at the joint frame and chained through intermediate links
+  const jointSegments = (joint: JointEntry): Omit<JointSpec, 'parent' | 'child' | 'origin'>[] => {
+    const axisEl = child(joint.el, 'axis');
+    const axis2El = child(joint.el, 'axis2');
+    switch (joint.el.getAttribute('type')) {
+      case 'revolute':
+        return [revoluteAbout(joint.key, axisEl, joint)];
+      case 'continuous':
+        return [{ name: joint.key, type: 'continuous', axis: jointAxis(axisEl, joint) }];
+      case 'prismatic':
+        return [{
+          name: joint.key, type: 'prismatic', axis: jointAxis(axisEl, joint),
+          limit: axisLimit(axisEl) ?? { lower: -UNLIMITED_PRISMATIC_RANGE, upper: UNLIMITED_PRISMATIC_RANGE },
+        }];
+      case 'universal':
+      case 'revolute2':
+        return [revoluteAbout(`${joint.key}_1`, axisEl, joint), revoluteAbout(`${joint.key}_2`, axis2El, joint)];
+      case 'ball':
+        return (['x', 'y', 'z'] as const).map(a => ({
+          name: `${joint.key}_${a}`,
+          type: 'continuous' as const,
+          axis: new THREE.Vector3(a === 'x' ? 1 : 0, a === 'y' ? 1 : 0, a === 'z' ? 1 : 0),
+        }));
+      default:
+        // fixed, and types without a URDF counterpart (screw, gearbox)
+        return [{ name: joint.key, type: 'fixed' }];
+    }
+  };
+
+  // Free models of a world are posed along and about the world axes, in URDF rpy order. A single
+  // floating joint would take all six values at once, which the joint sliders cannot set.
+  const freeSegments = (name: string): Omit<JointSpec, 'parent' | 'child' | 'origin'>[] => [
+    ...(['x', 'y', 'z'] as const).map(a => ({
+      name: `${name}_${a}`,
+      type: 'prismatic' as const,
+      axis: new THREE.Vector3(a === 'x' ? 1 : 0, a === 'y' ? 1 : 0, a === 'z' ? 1 : 0),
+      limit: { lower: -UNLIMITED_PRISMATIC_RANGE, upper: UNLIMITED_PRISMATIC_RANGE },
+    })),
+    ...(['yaw', 'pitch', 'roll'] as const).map(a => ({
+      name: `${name}_${a}`,
+      type: 'continuous' as const,
+      axis: new THREE.Vector3(a === 'roll' ? 1 : 0, a === 'pitch' ? 1 : 0, a === 'yaw' ? 1 : 0),
+    })),
+  ];
+
+  // Joints from `parentKey` to `childKey` at `jointFrame`, chained through intermediate links
+  const appendSegments = (segments: Omit<JointSpec, 'parent' | 'child' | 'origin'>[], parentKey: string, childKey: string, jointFrame: THREE.Matrix4) => {
+    let parent = linkNames.get(parentKey)!;
+    segments.forEach((segment, i) => {
+      const isLast = i === segments.length - 1;
+      const childName = isLast ? linkNames.get(childKey)! : uniqueLinkName(`${segment.name}_link`);
+      if (!isLast) appendElement(robot, 'link', { name: childName });
+      appendJoint(robot, {
+        ...segment,
+        name: i === 0 && segments.length === 1 ? segment.name : uniqueJointName(segment.name),
+        parent,
+        child: childName,
+        origin: i === 0 ? urdfFrames.get(parentKey)!.clone().invert().multiply(jointFrame) : new THREE.Matrix4(),
+      });
+      parent = childName;
+    });
+    urdfFrames.set(childKey, jointFrame);
+  };
+
+  const linkByKey = new Map(links.map(l => [l.key, l]));
+
+  const appendSubtree = (parentKey: string) => {
+    (childJoints.get(parentKey) || []).forEach(joint => {
+      const childKey = asLink(joint.child);
+      appendSegments(jointSegments(joint), parentKey, childKey, worldPose(joint.key));
+      appendLink(linkByKey.get(childKey)!);
+      appendSubtree(childKey);
+    });
+  };
+
+  if (needsWorldLink) {
+    appendElement(robot, 'link', { name: worldName });
+    appendSubtree('world');
+  }
+  roots.forEach(root => {
+    const rootFrame = worldPose(root.key);
+    if (needsWorldLink) {
+      // Each model is its own subtree of the world link; links of non-static models are free bodies
+      const name = `${root.key}_to_world`;
+      const segments = staticModels.has(root.scope.frame) ? [{ name: uniqueJointName(name), type: 'fixed' as const }] : freeSegments(name);
+      appendSegments(segments, 'world', root.key, rootFrame);
+    } else {
+      urdfFrames.set(root.key, rootFrame);
+    }
+    appendLink(root);
+    appendSubtree(root.key);
+  });
+
+  return serializeUrdf(doc);
+}
+
+// Path of the SDF file a model.config points to; the newest SDF version wins
+function pickConfigSdf(config: Element, configPath: string, source: ModelFileSource) {
+  const versions = elementChildren(config, 'sdf').map(el => ({
+    file: text(el),
+    version: parseFloat(el.getAttribute('version') || '0'),
+  }));
+  versions.sort((a, b) => b.version - a.version);
+  const file = versions[0]?.file || 'model.sdf';
+  return source.resolve(file, configPath);
+}
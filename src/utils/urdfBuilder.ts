@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { formatXml } from './xmlFormat';
+
+// Helpers shared by the importers that translate other formats (MJCF, SDF) into URDF text,
+// so the rest of the app only ever deals with URDF.
+
+export type GeometrySpec =
+  | { type: 'box'; size: [number, number, number] }
+  | { type: 'sphere'; radius: number }
+  | { type: 'cylinder'; radius: number; length: number }
+  | { type: 'mesh'; filename: string; scale?: [number, number, number] };
+
+export interface InertiaValues {
+  ixx: number;
+  iyy: number;
+  izz: number;
+  ixy: number;
+  ixz: number;
+  iyz: number;
+}
+
+export const formatNumber = (v: number) => {
+  const rounded = parseFloat(v.toFixed(8));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+export const formatVector = (values: number[]) => values.map(formatNumber).join(' ');
+
+export function createUrdfDocument(name: string): { doc: Document; robot: Element } {
+  const doc = document.implementation.createDocument(null, 'robot', null);
+  const robot = doc.documentElement;
+  robot.setAttribute('name', name);
+  return { doc, robot };
+}
+
+export function appendElement(parent: Element, tag: string, attrs: Record<string, string> = {}): Element {
+  const el = parent.ownerDocument.createElement(tag);
+  Object.entries(attrs).forEach(([k, v]) => el.setAttribute(k, v));
+  parent.appendChild(el);
+  return el;
+}
+
+// <origin xyz rpy>; URDF rpy is fixed-axis roll-pitch-yaw, i.e. Euler order ZYX
+export function appendOrigin(parent: Element, matrix: THREE.Matrix4) {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  matrix.decompose(position, quaternion, new THREE.Vector3());
+  const euler = new THREE.Euler().setFromQuaternion(quaternion, 'ZYX');
+  const xyz = [position.x, position.y, position.z];
+  const rpy = [euler.x, euler.y, euler.z];
+  if (xyz.every(v => Math.abs(v) < 1e-12) && rpy.every(v => Math.abs(v) < 1e-12)) return;
+  appendElement(parent, 'origin', { xyz: formatVector(xyz), rpy: formatVector(rpy) });
+}
+
+export function appendGeometry(parent: Element, geometry: GeometrySpec) {
+  const el = appendElement(parent, 'geometry');
+  switch (geometry.type) {
+    case 'box':
+      appendElement(el, 'box', { size: formatVector(geometry.size) });
+      break;
+    case 'sphere':
+      appendElement(el, 'sphere', { radius: formatNumber(geometry.radius) });
+      break;
+    case 'cylinder':
+      appendElement(el, 'cylinder', { radius: formatNumber(geometry.radius), length: formatNumber(geometry.length) });
+      break;
+    case 'mesh': {
+      const attrs: Record<string, string> = { filename: geometry.filename };
+      if (geometry.scale && geometry.scale.some(s => s !== 1)) attrs.scale = formatVector(geometry.scale);
+      appendElement(el, 'mesh', attrs);
+      break;
+    }
+  }
+}
+
+// URDF has no capsule: a cylinder of the given (straight part) length capped by two spheres
+export function capsuleGeometries(origin: THREE.Matrix4, radius: number, length: number): { origin: THREE.Matrix4; geometry: GeometrySpec }[] {
+  const capOffset = (sign: number) => origin.clone().multiply(new THREE.Matrix4().makeTranslation(0, 0, sign * length / 2));
+  return [
+    { origin, geometry: { type: 'cylinder', radius, length } },
+    { origin: capOffset(1), geometry: { type: 'sphere', radius } },
+    { origin: capOffset(-1), geometry: { type: 'sphere', radius } },
+  ];
+}
+
+export function appendVisual(link: Element, origin: THREE.Matrix4, geometry: GeometrySpec, rgba?: number[], materialName?: string) {
+  const visual = appendElement(link, 'visual');
+  appendOrigin(visual, origin);
+  appendGeometry(visual, geometry);
+  if (rgba) {
+    const material = appendElement(visual, 'material', { name: materialName || `rgba_${formatVector(rgba).replace(/ /g, '_')}` });
+    appendElement(material, 'color', { rgba: formatVector(rgba) });
+  }
+}
+
+export function appendCollision(link: Element, origin: THREE.Matrix4, geometry: GeometrySpec) {
+  const collision = appendElement(link, 'collision');
+  appendOrigin(collision, origin);
+  appendGeometry(collision, geometry);
+}
+
+export function appendInertial(link: Element, origin: THREE.Matrix4, mass: number, inertia: InertiaValues) {
+  const inertial = appendElement(link, 'inertial');
+  appendOrigin(inertial, origin);
+  appendElement(inertial, 'mass', { value: formatNumber(mass) });
+  appendElement(inertial, 'inertia', {
+    ixx: formatNumber(inertia.ixx), ixy: formatNumber(inertia.ixy), ixz: formatNumber(inertia.ixz),
+    iyy: formatNumber(inertia.iyy), iyz: formatNumber(inertia.iyz), izz: formatNumber(inertia.izz),
+  });
+}
+
+// Travel given to unlimited slide joints, which URDF prismatic joints cannot express
+export const UNLIMITED_PRISMATIC_RANGE = 1;
+
+export interface JointSpec {
+  name: string;
+  type: 'fixed' | 'revolute' | 'continuous' | 'prismatic' | 'floating';
+  parent: string;
+  child: string;
+  origin: THREE.Matrix4;
+  axis?: THREE.Vector3;
+  limit?: { lower: number; upper: number };
+}
+
+export function appendJoint(robot: Element, spec: JointSpec) {
+  const joint = appendElement(robot, 'joint', { name: spec.name, type: spec.type });
+  appendOrigin(joint, spec.origin);
+  appendElement(joint, 'parent', { link: spec.parent });
+  appendElement(joint, 'child', { link: spec.child });
+  if (spec.axis && spec.type !== 'fixed' && spec.type !== 'floating') {
+    const axis = spec.axis.clone().normalize();
+    appendElement(joint, 'axis', { xyz: formatVector([axis.x, axis.y, axis.z]) });
+  }
+  if (spec.limit) {
+    // Other formats carry no URDF effort/velocity; 0 marks them as unspecified
+    appendElement(joint, 'limit', {
+      lower: formatNumber(spec.limit.lower), upper: formatNumber(spec.limit.upper), effort: '0', velocity: '0',
+    });
+  }
+  return joint;
+}
+
+export const serializeUrdf = (doc: Document) => formatXml(doc);
+
+// Unique names for generated links and joints
+export function createNameRegistry() {
+  const used = new Set<string>();
+  return (base: string) => {
+    let name = base;
+    for (let i = 1; used.has(name); i++) name = `${base}_${i}`;
+    used.add(name);
+    return name;
+  };
+}
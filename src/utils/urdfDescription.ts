@@ -0,0 +1,330 @@
+import * as THREE from 'three';
+import { URDFRobot } from 'urdf-loader';
+import {
+  URDFCollider, URDFJoint, URDFLink, URDFMimicJoint, URDFRobot as URDFRobotClass, URDFVisual,
+} from 'urdf-loader/src/URDFClasses.js';
+import { InertialData, parseInertial } from './inertia';
+
+/**
+ * A URDF <robot> as plain data. The text is turned into it on the worker pool (see workerPool.ts),
+ * where the XML is parsed, and buildRobot then only has to create the three.js objects. Both follow
+ * URDFLoader.parse, which this replaces, so robots come out the same.
+ */
+
+export type Vector3Tuple = [number, number, number];
+
+export interface OriginDescription {
+  xyz: Vector3Tuple;
+  rpy: Vector3Tuple;
+}
+
+export interface MaterialDescription {
+  name: string;
+  rgba: number[] | null;
+  texture: string | null;
+}
+
+export type GeometryDescription =
+  // `filename` as written in the URDF; a mesh without one is not loaded
+  | { type: 'mesh'; filename: string | null; scale: Vector3Tuple | null }
+  | { type: 'box'; size: Vector3Tuple }
+  | { type: 'sphere'; radius: number }
+  | { type: 'cylinder'; radius: number; length: number }
+  // Shapes URDFLoader does not draw either
+  | { type: 'other'; tag: string };
+
+// A <visual> or <collision>
+export interface LinkElementDescription {
+  name: string | null;
+  origin: OriginDescription | null;
+  geometry: GeometryDescription | null;
+  material: MaterialDescription | null;
+}
+
+export interface LinkDescription {
+  name: string;
+  visuals: LinkElementDescription[];
+  collisions: LinkElementDescription[];
+  inertial: InertialData | null;
+}
+
+export interface JointDescription {
+  name: string;
+  type: string;
+  parent: string;
+  child: string;
+  origin: OriginDescription;
+  axis: Vector3Tuple | null;
+  // The attributes present on <limit>
+  limit: { lower?: number; upper?: number; effort?: number; velocity?: number } | null;
+  mimic: { joint: string; multiplier: number; offset: number } | null;
+}
+
+export interface UrdfDescription {
+  name: string;
+  // Robot-level <material> elements, shared by the visuals that name them
+  materials: MaterialDescription[];
+  links: LinkDescription[];
+  joints: JointDescription[];
+}
+
+const childElements = (el: Element, tag: string) => Array.from(el.children).filter(c => c.nodeName.toLowerCase() === tag);
+const lastChild = (el: Element, tag: string) => childElements(el, tag).pop();
+
+const parseTuple = (value: string | null): Vector3Tuple => {
+  if (!value) return [0, 0, 0];
+  const parts = value.trim().split(/\s+/g).map(v => parseFloat(v));
+  return [parts[0], parts[1], parts[2]];
+};
+
+const describeOrigin = (el: Element): OriginDescription => ({ xyz: parseTuple(el.getAttribute('xyz')), rpy: parseTuple(el.getAttribute('rpy')) });
+
+const describeMaterial = (el: Element): MaterialDescription => {
+  const color = lastChild(el, 'color')?.getAttribute('rgba');
+  return {
+    name: el.getAttribute('name') || '',
+    rgba: color ? color.split(/\s/g).map(v => parseFloat(v)) : null,
+    texture: lastChild(el, 'texture')?.getAttribute('filename') || null,
+  };
+};
+
+const describeGeometry = (el: Element): GeometryDescription | null => {
+  const shape = el.children[0];
+  if (!shape) return null;
+  const number = (name: string) => parseFloat(shape.getAttribute(name) ?? '') || 0;
+  switch (shape.nodeName.toLowerCase()) {
+    case 'mesh': {
+      const scale = shape.getAttribute('scale');
+      return { type: 'mesh', filename: shape.getAttribute('filename'), scale: scale ? parseTuple(scale) : null };
+    }
+    case 'box': return { type: 'box', size: parseTuple(shape.getAttribute('size')) };
+    case 'sphere': return { type: 'sphere', radius: number('radius') };
+    case 'cylinder': return { type: 'cylinder', radius: number('radius'), length: number('length') };
+    default: return { type: 'other', tag: shape.nodeName };
+  }
+};
+
+const describeLinkElement = (el: Element): LinkElementDescription => {
+  const origin = lastChild(el, 'origin');
+  const geometry = childElements(el, 'geometry')[0];
+  const material = childElements(el, 'material')[0];
+  return {
+    name: el.getAttribute('name'),
+    origin: origin ? describeOrigin(origin) : null,
+    geometry: geometry ? describeGeometry(geometry) : null,
+    material: material ? describeMaterial(material) : null,
+  };
+};
+
+const describeJoint = (el: Element): JointDescription => {
+  const origin = lastChild(el, 'origin');
+  const axis = childElements(el, 'axis')[0]?.getAttribute('xyz');
+  const limit = lastChild(el, 'limit');
+  const mimic = childElements(el, 'mimic')[0];
+  const limitValues: NonNullable<JointDescription['limit']> = {};
+  if (limit) {
+    (['lower', 'upper', 'effort', 'velocity'] as const).forEach(name => {
+      const value = limit.getAttribute(name);
+      if (value) limitValues[name] = parseFloat(value);
+    });
+  }
+  return {
+    name: el.getAttribute('name') || '',
+    type: el.getAttribute('type') || '',
+    parent: lastChild(el, 'parent')?.getAttribute('link') || '',
+    child: lastChild(el, 'child')?.getAttribute('link') || '',
+    origin: origin ? describeOrigin(origin) : { xyz: [0, 0, 0], rpy: [0, 0, 0] },
+    axis: axis ? parseTuple(axis) : null,
+    limit: limit ? limitValues : null,
+    mimic: mimic ? {
+      joint: mimic.getAttribute('joint') || '',
+      multiplier: parseFloat(mimic.getAttribute('multiplier') || '1'),
+      offset: parseFloat(mimic.getAttribute('offset') || '0'),
+    } : null,
+  };
+};
+
+export function describeUrdf(text: string): UrdfDescription {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) throw new Error(`Malformed XML: ${(parserError.textContent || '').trim().split('\n')[0]}`);
+  const robot = Array.from(doc.children).filter(c => c.nodeName === 'robot').pop();
+  if (!robot) throw new Error('No <robot> root element found');
+
+  return {
+    name: robot.getAttribute('name') || '',
+    materials: childElements(robot, 'material').map(describeMaterial),
+    links: childElements(robot, 'link').map(link => ({
+      name: link.getAttribute('name') || '',
+      visuals: childElements(link, 'visual').map(describeLinkElement),
+      collisions: childElements(link, 'collision').map(describeLinkElement),
+      inertial: parseInertial(link),
+    })),
+    joints: childElements(robot, 'joint').map(describeJoint),
+  };
+}
+
+export type LoadMeshCallback = (path: string, manager: THREE.LoadingManager, done: (mesh: THREE.Object3D, err?: Error) => void) => void;
+
+// Filled in by buildRobot, for the code that reads the URDF behind a robot
+const inertials = new WeakMap<THREE.Object3D, InertialData>();
+const descriptions = new WeakMap<THREE.Object3D, UrdfDescription>();
+
+// The <inertial> of a link of a built robot, or null if it has none
+export const getLinkInertial = (link: THREE.Object3D) => inertials.get(link) ?? null;
+
+export const getRobotDescription = (robot: URDFRobot) => descriptions.get(robot) ?? null;
+
+// Joints posed by one number. Floating and planar joints take several: given a single number,
+// urdf-loader sets the rest to undefined and the child ends up at NaN, so sliders, dragging and
+// stored poses leave them out.
+const SCALAR_JOINT_TYPES = ['revolute', 'continuous', 'prismatic'];
+
+export const isScalarJoint = (joint: { jointType: string }) => SCALAR_JOINT_TYPES.includes(joint.jointType);
+
+// URDF rpy are fixed-axis X, Y, Z rotations, which is three's intrinsic 'ZYX' order
+const applyOrigin = (obj: THREE.Object3D, { xyz, rpy }: OriginDescription) => {
+  obj.position.set(xyz[0], xyz[1], xyz[2]);
+  obj.quaternion.setFromEuler(new THREE.Euler(rpy[0], rpy[1], rpy[2], 'ZYX'));
+};
+
+/**
+ * Creates the robot of a description. Meshes are handed to `loadMeshCb` with their filename as
+ * written in the URDF and textures are requested through `manager`, as URDFLoader does.
+ */
+export function buildRobot(description: UrdfDescription, manager: THREE.LoadingManager, loadMeshCb: LoadMeshCallback): URDFRobot {
+  const createMaterial = (m: MaterialDescription | null) => {
+    const material = new THREE.MeshPhongMaterial();
+    if (!m) return material;
+    material.name = m.name;
+    if (m.rgba) {
+      material.color.setRGB(m.rgba[0], m.rgba[1], m.rgba[2]);
+      material.opacity = m.rgba[3];
+      material.transparent = m.rgba[3] < 1;
+      material.depthWrite = !material.transparent;
+    }
+    if (m.texture) {
+      material.map = new THREE.TextureLoader(manager).load(m.texture);
+      material.map.colorSpace = THREE.SRGBColorSpace;
+    }
+    return material;
+  };
+
+  const materials = new Map(description.materials.map(m => [m.name, createMaterial(m)]));
+
+  // Only visuals use the robot's materials; collisions always get their own
+  const buildLinkElement = <T extends URDFVisual | URDFCollider>(element: LinkElementDescription, group: T, useShared: boolean): T => {
+    const shared = useShared && element.material?.name ? materials.get(element.material.name) : undefined;
+    const material = shared ?? createMaterial(element.material);
+    if (element.name) {
+      group.name = element.name;
+      group.urdfName = element.name;
+    }
+    if (element.origin) applyOrigin(group, element.origin);
+
+    const geometry = element.geometry;
+    const addPrimitive = (shape: THREE.BufferGeometry, scale: Vector3Tuple) => {
+      const primitive = new THREE.Mesh(shape, material);
+      primitive.scale.set(...scale);
+      group.add(primitive);
+      return primitive;
+    };
+    if (geometry?.type === 'mesh' && geometry.filename !== null) {
+      if (geometry.scale) group.scale.set(...geometry.scale);
+      loadMeshCb(geometry.filename, manager, (obj, err) => {
+        if (err) {
+          console.error('URDFLoader: Error loading mesh.', err);
+        } else if (obj) {
+          if (obj instanceof THREE.Mesh) obj.material = material;
+          // Meshes are placed by the <origin>; only a unit conversion (e.g. in COLLADA files) is kept
+          obj.position.set(0, 0, 0);
+          obj.quaternion.identity();
+          group.add(obj);
+        }
+      });
+    } else if (geometry?.type === 'box') {
+      addPrimitive(new THREE.BoxGeometry(1, 1, 1), geometry.size);
+    } else if (geometry?.type === 'sphere') {
+      addPrimitive(new THREE.SphereGeometry(1, 30, 30), [geometry.radius, geometry.radius, geometry.radius]);
+    } else if (geometry?.type === 'cylinder') {
+      addPrimitive(new THREE.CylinderGeometry(1, 1, 1, 30), [geometry.radius, geometry.length, geometry.radius]).rotation.set(Math.PI / 2, 0, 0);
+    }
+    return group;
+  };
+
+  const robot = new URDFRobotClass() as URDFRobot;
+  robot.robotName = description.name;
+  descriptions.set(robot, description);
+
+  const visualMap: URDFRobot['visual'] = {};
+  const colliderMap: URDFRobot['colliders'] = {};
+  const linkMap: URDFRobot['links'] = {};
+  const jointMap: URDFRobot['joints'] = {};
+
+  // Root links (no joint has them as its child) are the robot object itself
+  const childLinks = new Set(description.joints.map(j => j.child));
+  description.links.forEach(link => {
+    const target = childLinks.has(link.name) ? new URDFLink() : robot;
+    target.name = link.name;
+    target.urdfName = link.name;
+    if (link.inertial) inertials.set(target, link.inertial);
+
+    link.visuals.forEach(v => {
+      const visual = buildLinkElement(v, new URDFVisual(), true);
+      target.add(visual);
+      if (v.name) visualMap[v.name] = visual;
+    });
+    link.collisions.forEach(c => {
+      const collider = buildLinkElement(c, new URDFCollider(), false);
+      target.add(collider);
+      if (c.name) colliderMap[c.name] = collider;
+    });
+    linkMap[link.name] = target;
+  });
+
+  description.joints.forEach(j => {
+    const joint = j.mimic ? new URDFMimicJoint() : new URDFJoint();
+    if (j.mimic && joint instanceof URDFMimicJoint) {
+      joint.mimicJoint = j.mimic.joint;
+      joint.multiplier = j.mimic.multiplier;
+      joint.offset = j.mimic.offset;
+    }
+    joint.name = j.name;
+    joint.urdfName = j.name;
+    joint.jointType = j.type as URDFJoint['jointType'];
+    if (j.limit?.lower !== undefined) joint.limit.lower = j.limit.lower;
+    if (j.limit?.upper !== undefined) joint.limit.upper = j.limit.upper;
+
+    const parent = linkMap[j.parent];
+    const child = linkMap[j.child];
+    if (!parent || !child) throw new Error(`Joint "${j.name}" connects the missing link "${parent ? j.child : j.parent}"`);
+    parent.add(joint);
+    joint.add(child);
+    applyOrigin(joint, j.origin);
+    if (j.axis) joint.axis = new THREE.Vector3(...j.axis).normalize();
+    jointMap[j.name] = joint;
+  });
+
+  robot.joints = jointMap;
+  robot.links = linkMap;
+  robot.colliders = colliderMap;
+  robot.visual = visualMap;
+
+  // Link up mimic joints, refusing loops of them
+  const jointList = Object.values(jointMap);
+  jointList.forEach(j => {
+    if (j instanceof URDFMimicJoint) jointMap[j.mimicJoint]?.mimicJoints.push(j);
+  });
+  jointList.forEach(j => {
+    const visited = new Set<URDFJoint>();
+    const visit = (joint: URDFJoint) => {
+      if (visited.has(joint)) throw new Error('URDFLoader: Detected an infinite loop of mimic joints.');
+      visited.add(joint);
+      joint.mimicJoints.forEach(visit);
+    };
+    visit(j);
+  });
+
+  robot.frames = { ...colliderMap, ...visualMap, ...linkMap, ...jointMap };
+  return robot;
+}
@@ -0,0 +1,185 @@
+import { JointDescription, LinkDescription, OriginDescription, UrdfDescription } from './urdfDescription';
+
+/**
+ * Structural and geometric comparison of two versions of a URDF <robot>. Links and joints are matched
+ * by name, then the unmatched ones are paired up as renames where the tree or the content allows it.
+ */
+
+export type DiffElementType = 'link' | 'joint';
+export type DiffField = 'type' | 'parent' | 'child' | 'origin' | 'axis' | 'limit' | 'inertial' | 'mesh';
+
+export interface DiffChange {
+  type: DiffElementType;
+  // Name in the new version
+  name: string;
+  field: DiffField;
+  before: string;
+  after: string;
+}
+
+export interface UrdfDiff {
+  added: { type: DiffElementType; name: string }[];
+  removed: { type: DiffElementType; name: string }[];
+  renamed: { type: DiffElementType; from: string; to: string }[];
+  changes: DiffChange[];
+  // Names in the new version of the links and joints that are added, renamed or changed
+  changedNames: Set<string>;
+  // Joint names of the new version mapped to the old ones, for posing both versions alike
+  jointNames: Map<string, string>;
+}
+
+// Numbers are compared to 6 decimals, so reformatting a file does not count as a change
+const formatNumbers = (values: number[]) => values.map(v => String(+v.toFixed(6))).join(' ');
+
+const describeOrigin = (origin: OriginDescription | null) =>
+  `xyz ${formatNumbers(origin?.xyz ?? [0, 0, 0])}, rpy ${formatNumbers(origin?.rpy ?? [0, 0, 0])}`;
+
+const describeLimit = ({ limit }: JointDescription) => {
+  if (!limit) return 'none';
+  return (['lower', 'upper', 'effort', 'velocity'] as const)
+    .filter(a => limit[a] !== undefined)
+    .map(a => `${a} ${formatNumbers([limit[a]!])}`)
+    .join(', ');
+};
+
+const describeInertial = ({ inertial }: LinkDescription) => {
+  if (!inertial) return 'none';
+  const { ixx, ixy, ixz, iyy, iyz, izz } = inertial.inertia;
+  return `mass ${formatNumbers([inertial.mass])}, ${describeOrigin(inertial)}, inertia ${formatNumbers([ixx, ixy, ixz, iyy, iyz, izz])}`;
+};
+
+// Mesh files of the visuals and collisions, with their scale when it is not 1
+const describeMeshes = (link: LinkDescription) => {
+  const list = (elements: LinkDescription['visuals']) => elements.flatMap(({ geometry }) => {
+    if (geometry?.type !== 'mesh') return [];
+    const scale = geometry.scale && formatNumbers(geometry.scale);
+    return [scale && scale !== '1 1 1' ? `${geometry.filename ?? ''} ×${scale}` : geometry.filename ?? ''];
+  });
+  const visual = list(link.visuals);
+  const collision = list(link.collisions);
+  if (visual.length === 0 && collision.length === 0) return 'none';
+  return [visual.length > 0 && `visual ${visual.join(', ')}`, collision.length > 0 && `collision ${collision.join(', ')}`].filter(Boolean).join('; ');
+};
+
+// Everything but the name: identical content under another name is a rename
+const linkSignature = (link: LinkDescription) => {
+  const geometry = [...link.visuals, ...link.collisions].map(el => el.geometry ? JSON.stringify(el.geometry) : '');
+  return `${describeInertial(link)}|${geometry.join('|')}`;
+};
+
+const EMPTY_LINK_SIGNATURE = 'none|';
+
+const byName = <T extends { name: string }>(elements: T[]) => new Map(elements.map(el => [el.name, el]));
+const linkOf = (joint: JointDescription, end: 'parent' | 'child') => joint[end];
+
+export function diffUrdf(before: UrdfDescription, after: UrdfDescription): UrdfDiff {
+  const oldLinks = byName(before.links);
+  const newLinks = byName(after.links);
+  const oldJoints = byName(before.joints);
+  const newJoints = byName(after.joints);
+
+  // Old name -> new name of every matched link and joint
+  const linkMap = new Map<string, string>();
+  const jointMap = new Map<string, string>();
+  oldLinks.forEach((_, name) => { if (newLinks.has(name)) linkMap.set(name, name); });
+  oldJoints.forEach((_, name) => { if (newJoints.has(name)) jointMap.set(name, name); });
+  const renamed: UrdfDiff['renamed'] = [];
+
+  const unmatchedOld = (names: Map<string, unknown>, map: Map<string, string>) => Array.from(names.keys()).filter(n => !map.has(n));
+  const unmatchedNew = (names: Map<string, unknown>, map: Map<string, string>) => {
+    const matched = new Set(map.values());
+    return Array.from(names.keys()).filter(n => !matched.has(n));
+  };
+  const addRename = (type: DiffElementType, from: string, to: string) => {
+    (type === 'link' ? linkMap : jointMap).set(from, to);
+    renamed.push({ type, from, to });
+  };
+
+  // 1. A joint kept under its name that now connects an unmatched link in place of another
+  jointMap.forEach((to, from) => {
+    (['parent', 'child'] as const).forEach(end => {
+      const oldLink = linkOf(oldJoints.get(from)!, end);
+      const newLink = linkOf(newJoints.get(to)!, end);
+      const taken = new Set(linkMap.values());
+      if (oldLink !== newLink && !linkMap.has(oldLink) && !taken.has(newLink) && oldLinks.has(oldLink) && newLinks.has(newLink)) {
+        addRename('link', oldLink, newLink);
+      }
+    });
+  });
+
+  // 2. Links whose content only one unmatched link of the other version has
+  const newSignatures = new Map<string, string[]>();
+  unmatchedNew(newLinks, linkMap).forEach(name => {
+    const signature = linkSignature(newLinks.get(name)!);
+    newSignatures.set(signature, [...(newSignatures.get(signature) ?? []), name]);
+  });
+  const oldSignatures = new Map<string, string[]>();
+  unmatchedOld(oldLinks, linkMap).forEach(name => {
+    const signature = linkSignature(oldLinks.get(name)!);
+    oldSignatures.set(signature, [...(oldSignatures.get(signature) ?? []), name]);
+  });
+  oldSignatures.forEach((names, signature) => {
+    const candidates = newSignatures.get(signature);
+    // Empty links (frames) carry nothing to recognize them by
+    if (signature !== EMPTY_LINK_SIGNATURE && names.length === 1 && candidates?.length === 1) addRename('link', names[0], candidates[0]);
+  });
+
+  // 3. Joints between the same (possibly renamed) links
+  const newJointsByEnds = new Map<string, string>();
+  unmatchedNew(newJoints, jointMap).forEach(name => {
+    const joint = newJoints.get(name)!;
+    newJointsByEnds.set(`${linkOf(joint, 'parent')}>${linkOf(joint, 'child')}`, name);
+  });
+  unmatchedOld(oldJoints, jointMap).forEach(name => {
+    const joint = oldJoints.get(name)!;
+    const ends = `${linkMap.get(linkOf(joint, 'parent')) ?? ''}>${linkMap.get(linkOf(joint, 'child')) ?? ''}`;
+    const match = newJointsByEnds.get(ends);
+    if (match) {
+      addRename('joint', name, match);
+      newJointsByEnds.delete(ends);
+    }
+  });
+
+  const changes: DiffChange[] = [];
+  const compare = (type: DiffElementType, name: string, field: DiffField, before: string, after: string) => {
+    if (before !== after) changes.push({ type, name, field, before, after });
+  };
+
+  linkMap.forEach((to, from) => {
+    const oldLink = oldLinks.get(from)!;
+    const newLink = newLinks.get(to)!;
+    compare('link', to, 'inertial', describeInertial(oldLink), describeInertial(newLink));
+    compare('link', to, 'mesh', describeMeshes(oldLink), describeMeshes(newLink));
+  });
+  jointMap.forEach((to, from) => {
+    const oldJoint = oldJoints.get(from)!;
+    const newJoint = newJoints.get(to)!;
+    compare('joint', to, 'type', oldJoint.type, newJoint.type);
+    // Links are compared under their new names, so a renamed parent alone is not a change
+    (['parent', 'child'] as const).forEach(end => {
+      const oldLink = linkOf(oldJoint, end);
+      compare('joint', to, end, linkMap.get(oldLink) ?? oldLink, linkOf(newJoint, end));
+    });
+    compare('joint', to, 'origin', describeOrigin(oldJoint.origin), describeOrigin(newJoint.origin));
+    compare('joint', to, 'axis', formatNumbers(oldJoint.axis ?? [1, 0, 0]), formatNumbers(newJoint.axis ?? [1, 0, 0]));
+    compare('joint', to, 'limit', describeLimit(oldJoint), describeLimit(newJoint));
+  });
+
+  const added = [
+    ...unmatchedNew(newLinks, linkMap).map(name => ({ type: 'link' as const, name })),
+    ...unmatchedNew(newJoints, jointMap).map(name => ({ type: 'joint' as const, name })),
+  ];
+  const removed = [
+    ...unmatchedOld(oldLinks, linkMap).map(name => ({ type: 'link' as const, name })),
+    ...unmatchedOld(oldJoints, jointMap).map(name => ({ type: 'joint' as const, name })),
+  ];
+
+  return {
+    added,
+    removed,
+    renamed,
+    changes,
+    changedNames: new Set([...added.map(a => a.name), ...renamed.map(r => r.to), ...changes.map(c => c.name)]),
+    jointNames: new Map(Array.from(jointMap, ([from, to]) => [to, from])),
+  };
+}
@@ -0,0 +1,82 @@
+import { zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { normalizePath } from './fileSource';
+import { formatXml } from './xmlFormat';
+
+// How mesh filenames are written into the exported URDF
+export type MeshUriMode = 'original' | 'relative' | 'package';
+
+export interface UrdfExportOptions {
+  meshUriMode: MeshUriMode;
+  // Package name used by the 'package' mode
+  packageName: string;
+}
+
+export interface ExportedMesh {
+  // Filename as written in the loaded URDF
+  uri: string;
+  // Location in the exported archive, relative to the URDF file
+  archivePath: string;
+}
+
+export interface UrdfExport {
+  urdf: string;
+  meshes: ExportedMesh[];
+}
+
+// Path of a mesh inside the package ("meshes/base.stl"); loose files go to meshes/
+const meshArchivePath = (uri: string) => {
+  const packagePath = uri.match(/^package:\/\/[^/]+\/(.*)$/)?.[1];
+  let path: string;
+  if (packagePath !== undefined) path = normalizePath(packagePath);
+  else if (/^[a-z][a-z0-9+.-]*:/i.test(uri) || uri.startsWith('/')) path = uri.split(/[?#]/)[0].split('/').pop() || 'mesh';
+  else path = normalizePath(uri).replace(/^(\.\.\/)+/, '');
+  return path.includes('/') ? path : `meshes/${path}`;
+};
+
+// Pretty-printed URDF with mesh filenames rewritten, plus where each mesh goes in an archive
+export function exportUrdf(urdfContent: string, options: UrdfExportOptions): UrdfExport {
+  const doc = new DOMParser().parseFromString(urdfContent, 'text/xml');
+  // Left over from xacro expansion
+  doc.documentElement.removeAttribute('xmlns:xacro');
+  const meshes = new Map<string, ExportedMesh>();
+  const usedPaths = new Set<string>();
+
+  Array.from(doc.getElementsByTagName('mesh')).forEach(mesh => {
+    const uri = mesh.getAttribute('filename');
+    if (!uri) return;
+
+    let entry = meshes.get(uri);
+    if (!entry) {
+      // Different URIs can end in the same path ("a/base.stl" and "../a/base.stl")
+      const base = meshArchivePath(uri);
+      let archivePath = base;
+      for (let i = 1; usedPaths.has(archivePath); i++) archivePath = base.replace(/(\.[^./]+)?$/, `_${i}$1`);
+      usedPaths.add(archivePath);
+      entry = { uri, archivePath };
+      meshes.set(uri, entry);
+    }
+
+    if (options.meshUriMode === 'relative') mesh.setAttribute('filename', entry.archivePath);
+    if (options.meshUriMode === 'package') mesh.setAttribute('filename', `package://${options.packageName}/${entry.archivePath}`);
+  });
+
+  return { urdf: formatXml(doc), meshes: Array.from(meshes.values()) };
+}
+
+// Zip with the URDF at the root and the meshes at their archive paths
+export function buildExportArchive(urdfFilename: string, urdf: string, files: { path: string; data: Uint8Array }[]): Blob {
+  const entries: Record<string, Uint8Array> = { [urdfFilename]: new TextEncoder().encode(urdf) };
+  files.forEach(f => { entries[f.path] = f.data; });
+  // slice() hands the Blob a copy backed by a plain ArrayBuffer
+  return new Blob([zipSync(entries).slice()], { type: 'application/zip' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,203 @@
+import { getPrincipalInertia, isPhysicalInertia, parseInertial } from './inertia';
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  // 1-based line in the validated URDF text, if known
+  line: number | null;
+  // Link or joint the problem belongs to, used to select it in the viewer
+  target?: { type: 'link' | 'joint'; name: string };
+}
+
+export interface MeshLoadFailure {
+  uri: string;
+  reason: string;
+}
+
+// Maps DOM elements back to the line their start tag appears on.
+// DOMParser keeps no positions, so the n-th <tag> element in document order
+// is matched against the n-th "<tag" occurrence in the (comment-masked) source.
+const createLineLocator = (source: string, doc: Document) => {
+  const masked = source.replace(/<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>/g, m => m.replace(/[^\n]/g, ' '));
+  const linesByTag = new Map<string, number[]>();
+  const tagRegex = /<([A-Za-z_][\w:.-]*)/g;
+  let line = 1;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(masked)) !== null) {
+    for (let i = lastIndex; i < match.index; i++) {
+      if (masked.charCodeAt(i) === 10) line++;
+    }
+    lastIndex = match.index;
+    const list = linesByTag.get(match[1]) || [];
+    list.push(line);
+    linesByTag.set(match[1], list);
+  }
+
+  const elementsByTag = new Map<string, Element[]>();
+  return (el: Element | null | undefined): number | null => {
+    if (!el) return null;
+    let elements = elementsByTag.get(el.tagName);
+    if (!elements) {
+      elements = Array.from(doc.getElementsByTagName(el.tagName));
+      elementsByTag.set(el.tagName, elements);
+    }
+    const index = elements.indexOf(el);
+    const lines = linesByTag.get(el.tagName);
+    return lines && index >= 0 && index < lines.length ? lines[index] : null;
+  };
+};
+
+const childElements = (el: Element, tag: string) => Array.from(el.children).filter(c => c.nodeName.toLowerCase() === tag);
+
+// Runs every check at once so all problems of a description can be reported together
+export function validateUrdf(source: string, meshFailures: MeshLoadFailure[] = []): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const doc = new DOMParser().parseFromString(source, 'text/xml');
+
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    const text = parserError.textContent || 'Malformed XML';
+    const lineMatch = text.match(/line\s+(\d+)/i);
+    issues.push({ severity: 'error', message: `XML error: ${text.trim().split('\n')[0]}`, line: lineMatch ? parseInt(lineMatch[1], 10) : null });
+    return issues;
+  }
+
+  const robot = Array.from(doc.children).find(c => c.nodeName === 'robot');
+  if (!robot) {
+    issues.push({ severity: 'error', message: 'No <robot> root element found.', line: null });
+    return issues;
+  }
+
+  const lineOf = createLineLocator(source, doc);
+  const links = childElements(robot, 'link');
+  const joints = childElements(robot, 'joint');
+  const linkNames = new Set<string>();
+  const jointNames = new Set<string>();
+
+  // --- Duplicate names ---
+  links.forEach(l => {
+    const name = l.getAttribute('name') || '';
+    if (!name) issues.push({ severity: 'error', message: 'Link without a name.', line: lineOf(l) });
+    else if (linkNames.has(name)) issues.push({ severity: 'error', message: `Duplicate link name "${name}".`, line: lineOf(l), target: { type: 'link', name } });
+    linkNames.add(name);
+  });
+  joints.forEach(j => {
+    const name = j.getAttribute('name') || '';
+    if (!name) issues.push({ severity: 'error', message: 'Joint without a name.', line: lineOf(j) });
+    else if (jointNames.has(name)) issues.push({ severity: 'error', message: `Duplicate joint name "${name}".`, line: lineOf(j), target: { type: 'joint', name } });
+    jointNames.add(name);
+  });
+
+  // --- Joint connectivity, limits and axes ---
+  const parentOf = new Map<string, { parent: string; joint: Element }>();
+  joints.forEach(j => {
+    const name = j.getAttribute('name') || '';
+    const target = { type: 'joint' as const, name };
+    const type = j.getAttribute('type') || '';
+    const parentEl = childElements(j, 'parent')[0];
+    const childEl = childElements(j, 'child')[0];
+    const parent = parentEl?.getAttribute('link') || '';
+    const child = childEl?.getAttribute('link') || '';
+
+    if (!parentEl || !parent) issues.push({ severity: 'error', message: `Joint "${name}" has no parent link.`, line: lineOf(j), target });
+    else if (!linkNames.has(parent)) issues.push({ severity: 'error', message: `Joint "${name}" references missing parent link "${parent}".`, line: lineOf(parentEl), target });
+
+    if (!childEl || !child) issues.push({ severity: 'error', message: `Joint "${name}" has no child link.`, line: lineOf(j), target });
+    else if (!linkNames.has(child)) issues.push({ severity: 'error', message: `Joint "${name}" references missing child link "${child}".`, line: lineOf(childEl), target });
+
+    if (child) {
+      const existing = parentOf.get(child);
+      if (existing) {
+        issues.push({ severity: 'error', message: `Link "${child}" is the child of both "${existing.joint.getAttribute('name')}" and "${name}".`, line: lineOf(childEl), target });
+      } else if (parent) {
+        parentOf.set(child, { parent, joint: j });
+      }
+    }
+
+    const limitEl = childElements(j, 'limit')[0];
+    if (limitEl) {
+      const lower = parseFloat(limitEl.getAttribute('lower') || '0');
+      const upper = parseFloat(limitEl.getAttribute('upper') || '0');
+      if (lower > upper) {
+        issues.push({ severity: 'error', message: `Joint "${name}" has lower limit ${lower} greater than upper limit ${upper}.`, line: lineOf(limitEl), target });
+      }
+    } else if (type === 'revolute' || type === 'prismatic') {
+      issues.push({ severity: 'warning', message: `${type} joint "${name}" has no <limit>.`, line: lineOf(j), target });
+    }
+
+    const axisEl = childElements(j, 'axis')[0];
+    if (axisEl) {
+      const xyz = (axisEl.getAttribute('xyz') || '').trim().split(/\s+/).map(v => parseFloat(v));
+      const norm = Math.hypot(xyz[0] || 0, xyz[1] || 0, xyz[2] || 0);
+      if (xyz.length !== 3 || xyz.some(isNaN)) {
+        issues.push({ severity: 'error', message: `Joint "${name}" has a malformed axis "${axisEl.getAttribute('xyz')}".`, line: lineOf(axisEl), target });
+      } else if (norm < 1e-9) {
+        issues.push({ severity: 'error', message: `Joint "${name}" has a zero-length axis.`, line: lineOf(axisEl), target });
+      } else if (Math.abs(norm - 1) > 1e-6) {
+        issues.push({ severity: 'warning', message: `Joint "${name}" axis is not normalized (|axis| = ${norm.toFixed(6)}).`, line: lineOf(axisEl), target });
+      }
+    }
+  });
+
+  // --- Roots and cycles ---
+  const roots = links.map(l => l.getAttribute('name') || '').filter(n => n && !parentOf.has(n));
+  if (links.length > 0 && roots.length === 0) {
+    issues.push({ severity: 'error', message: 'The kinematic graph has no root link (every link has a parent).', line: lineOf(robot) });
+  } else if (roots.length > 1) {
+    issues.push({ severity: 'error', message: `Multiple root links: ${roots.join(', ')}.`, line: lineOf(robot) });
+  }
+
+  const reportedCycle = new Set<string>();
+  parentOf.forEach((_, start) => {
+    const seen = new Set<string>();
+    let current: string | undefined = start;
+    while (current && parentOf.has(current)) {
+      if (seen.has(current)) {
+        if (!reportedCycle.has(current)) {
+          const path = Array.from(seen);
+          const cycle = path.slice(path.indexOf(current));
+          cycle.forEach(n => reportedCycle.add(n));
+          const joint = parentOf.get(current)!.joint;
+          issues.push({ severity: 'error', message: `Kinematic cycle through links: ${cycle.join(' → ')}.`, line: lineOf(joint), target: { type: 'joint', name: joint.getAttribute('name') || '' } });
+        }
+        break;
+      }
+      seen.add(current);
+      current = parentOf.get(current)!.parent;
+    }
+  });
+
+  // --- Inertials and meshes ---
+  const failedMeshes = new Map(meshFailures.map(f => [f.uri, f.reason]));
+  links.forEach(l => {
+    const name = l.getAttribute('name') || '';
+    const target = { type: 'link' as const, name };
+    const inertialEl = childElements(l, 'inertial')[0];
+    const inertial = parseInertial(l);
+    if (inertialEl && inertial) {
+      const massEl = childElements(inertialEl, 'mass')[0];
+      if (inertial.mass <= 0) {
+        issues.push({ severity: 'error', message: `Link "${name}" has ${inertial.mass === 0 ? 'zero' : 'negative'} mass (${inertial.mass}).`, line: lineOf(massEl || inertialEl), target });
+      }
+      const inertiaEl = childElements(inertialEl, 'inertia')[0];
+      const { moments } = getPrincipalInertia(inertial.inertia);
+      if (moments.some(m => m <= 0)) {
+        issues.push({ severity: 'error', message: `Link "${name}" inertia is not positive definite (principal moments ${moments.map(m => m.toExponential(3)).join(', ')}).`, line: lineOf(inertiaEl || inertialEl), target });
+      } else if (!isPhysicalInertia(moments)) {
+        issues.push({ severity: 'warning', message: `Link "${name}" inertia violates the triangle inequality.`, line: lineOf(inertiaEl || inertialEl), target });
+      }
+    }
+
+    Array.from(l.getElementsByTagName('mesh')).forEach(mesh => {
+      const uri = mesh.getAttribute('filename');
+      if (!uri) {
+        issues.push({ severity: 'error', message: `Link "${name}" has a <mesh> without a filename.`, line: lineOf(mesh), target });
+      } else if (failedMeshes.has(uri)) {
+        issues.push({ severity: 'error', message: `Unresolved mesh "${uri}" (${failedMeshes.get(uri)}).`, line: lineOf(mesh), target });
+      }
+    });
+  });
+
+  return issues.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
+}
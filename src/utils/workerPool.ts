@@ -0,0 +1,158 @@
+import { GeometryData } from './geometryData';
+import { SceneData } from './sceneData';
+import { PackageMappings } from './packageMapping';
+import { UrdfDescription } from './urdfDescription';
+
+// Mesh formats the workers can decode. COLLADA is parsed with the XML DOM the workers install
+// (see workers/xmlDom.ts); glTF and 3MF stay on the main thread, their loaders need images.
+export const WORKER_MESH_FORMATS = ['stl', 'ply', 'obj', 'dae'];
+
+// One object of an OBJ file; materials are created on the main thread, where the .mtl is loaded
+export interface DecodedObjPart {
+  type: 'Mesh' | 'LineSegments' | 'Points';
+  name: string;
+  geometry: GeometryData;
+  materials: { name: string; vertexColors: boolean; flatShading: boolean }[];
+}
+
+// A xacro file to expand, with what the worker needs to read its includes on its own
+export interface XacroJob {
+  path: string;
+  content: string;
+  args: Record<string, string>;
+  // The dropped files, or null to read includes from the server at `baseUrl`
+  files: Map<string, File> | null;
+  baseUrl: string;
+  // Relative URLs are relative to the page, not to the worker's script
+  pageUrl: string;
+  packages: PackageMappings;
+  // Texts from the source editor, used in place of the files' own
+  edits: Map<string, string>;
+}
+
+export type WorkerTask =
+  // `url` is absolute (blob URLs of dropped files work in workers too)
+  | { kind: 'mesh'; format: string; url: string }
+  | { kind: 'xacro'; job: XacroJob }
+  | { kind: 'urdf'; text: string };
+
+export type WorkerRequest = WorkerTask & { id: number };
+
+export type DecodeResponse =
+  | { id: number; bytes: number; geometry: GeometryData }
+  | { id: number; bytes: number; parts: DecodedObjPart[]; mtllib: string | null }
+  | { id: number; bytes: number; scene: SceneData }
+  // `status` for HTTP errors; `network` when the request did not get a response at all
+  | { id: number; error: string; status?: number; network?: boolean };
+
+export type WorkerResponse =
+  | DecodeResponse
+  // Every file read while expanding, for the source editor
+  | { id: number; urdf: string; reads: Map<string, string> }
+  | { id: number; description: UrdfDescription };
+
+interface Job {
+  task: WorkerTask;
+  signal?: AbortSignal;
+  resolve: (response: WorkerResponse) => void;
+  reject: (err: unknown) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  job: (Job & { id: number }) | null;
+}
+
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+const slots: Slot[] = [];
+const queue: Job[] = [];
+let nextId = 1;
+
+export const supportsWorkers = () => typeof Worker !== 'undefined';
+
+const abortError = (what: string) => new DOMException(`${what} cancelled`, 'AbortError');
+
+const removeSlot = (slot: Slot) => {
+  slot.worker.terminate();
+  slots.splice(slots.indexOf(slot), 1);
+};
+
+function spawn(): Slot {
+  const slot: Slot = {
+    worker: new Worker(new URL('../workers/loaderWorker.ts', import.meta.url), { type: 'module' }),
+    job: null,
+  };
+  slot.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const job = slot.job;
+    if (!job || job.id !== e.data.id) return;
+    slot.job = null;
+    job.resolve(e.data);
+    pump();
+  };
+  // A worker that fails to start or crashes takes its job with it; a fresh one replaces it on demand
+  slot.worker.onerror = (e) => {
+    const job = slot.job;
+    removeSlot(slot);
+    job?.reject(new Error(`Worker failed: ${e.message}`));
+    pump();
+  };
+  slots.push(slot);
+  return slot;
+}
+
+function pump() {
+  while (queue.length > 0) {
+    const slot = slots.find(s => !s.job) ?? (slots.length < POOL_SIZE ? spawn() : null);
+    if (!slot) return;
+    const job = queue.shift()!;
+    const id = nextId++;
+    slot.job = { ...job, id };
+    const request: WorkerRequest = { ...job.task, id };
+    slot.worker.postMessage(request);
+  }
+}
+
+/**
+ * Runs a task on one of the pool's workers. Aborting `signal` drops the job if it is still queued,
+ * or terminates the worker running it, so a newly selected model does not wait for it.
+ */
+function runInWorker(task: WorkerTask, what: string, signal?: AbortSignal): Promise<WorkerResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(what));
+      return;
+    }
+    const job: Job = { task, signal, resolve, reject };
+    signal?.addEventListener('abort', () => {
+      const queued = queue.indexOf(job);
+      if (queued !== -1) queue.splice(queued, 1);
+      const running = slots.find(s => s.job?.resolve === resolve);
+      if (running) {
+        removeSlot(running);
+        pump();
+      }
+      reject(abortError(what));
+    }, { once: true });
+    queue.push(job);
+    pump();
+  });
+}
+
+// Fetches and decodes a mesh file
+export const decodeInWorker = (format: string, url: string, signal?: AbortSignal) =>
+  runInWorker({ kind: 'mesh', format, url }, 'Mesh decoding', signal) as Promise<DecodeResponse>;
+
+// Expands a xacro file with its includes; rejects with the message of the expansion error
+export async function expandXacroInWorker(job: XacroJob, signal?: AbortSignal) {
+  const response = await runInWorker({ kind: 'xacro', job }, 'Xacro expansion', signal);
+  if ('error' in response) throw new Error(response.error);
+  return response as { urdf: string; reads: Map<string, string> };
+}
+
+// Parses URDF text into the plain description the robot is built from (see urdfDescription.ts)
+export async function describeUrdfInWorker(text: string, signal?: AbortSignal) {
+  const response = await runInWorker({ kind: 'urdf', text }, 'URDF parsing', signal);
+  if ('error' in response) throw new Error(response.error);
+  return (response as { description: UrdfDescription }).description;
+}
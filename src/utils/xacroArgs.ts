@@ -0,0 +1,23 @@
+export interface XacroArgument {
+  name: string;
+  // Raw default as written in the file (may itself contain $(arg ...) substitutions)
+  defaultValue: string | null;
+}
+
+// Lists the <xacro:arg> declarations of a xacro document in declaration order
+export function getXacroArguments(content: string): XacroArgument[] {
+  const doc = new DOMParser().parseFromString(content, 'text/xml');
+  const args: XacroArgument[] = [];
+  const seen = new Set<string>();
+
+  Array.from(doc.getElementsByTagName('xacro:arg')).forEach(el => {
+    const name = el.getAttribute('name');
+    if (!name || seen.has(name)) return;
+    seen.add(name);
+    args.push({ name, defaultValue: el.getAttribute('default') });
+  });
+
+  return args;
+}
+
+export const isBooleanArgument = (value: string | null) => value !== null && /^(true|false)$/i.test(value.trim());
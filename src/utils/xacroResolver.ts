@@ -0,0 +1,153 @@
+import { XacroParser } from 'xacro-parser';
+import { IncludeError, ModelFileSource, dirname, joinPath, normalizePath, parseXmlFile } from './fileSource';
+
+const isXacroTag = (el: Element, name: string) => el.tagName === `xacro:${name}`;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Renames the macros and properties defined in an included document to "ns.name",
+// which is how xacro exposes namespaced includes. xacro-parser looks macros up by
+// tag name and keeps dotted identifiers as one token, so no further support is needed.
+const applyNamespace = (root: Element, ns: string) => {
+  const all = Array.from(root.getElementsByTagName('*'));
+  const macros = new Set<string>();
+  const properties: string[] = [];
+  all.forEach(el => {
+    const name = el.getAttribute('name');
+    if (!name) return;
+    if (isXacroTag(el, 'macro')) macros.add(name);
+    else if (isXacroTag(el, 'property')) properties.push(name);
+    else return;
+    el.setAttribute('name', `${ns}.${name}`);
+  });
+
+  const propertyRegex = properties.length > 0
+    ? new RegExp(`(?<![\\w.])(${properties.map(escapeRegExp).join('|')})(?![\\w])`, 'g')
+    : null;
+  const renameInExpressions = (text: string) => propertyRegex
+    ? text.replace(/\$\{[^}]*\}/g, expr => expr.replace(propertyRegex, `${ns}.$1`))
+    : text;
+
+  all.forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      const renamed = renameInExpressions(attr.value);
+      if (renamed !== attr.value) el.setAttribute(attr.name, renamed);
+    });
+    el.childNodes.forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE && node.nodeValue) node.nodeValue = renameInExpressions(node.nodeValue);
+    });
+
+    const tag = el.tagName.startsWith('xacro:') ? el.tagName.slice('xacro:'.length) : '';
+    if (!macros.has(tag)) return;
+    const call = el.ownerDocument.createElementNS(el.namespaceURI, `xacro:${ns}.${tag}`);
+    Array.from(el.attributes).forEach(attr => call.setAttribute(attr.name, attr.value));
+    while (el.firstChild) call.appendChild(el.firstChild);
+    el.parentNode?.replaceChild(call, el);
+  });
+};
+
+// Inlines every <xacro:include> reachable from the entry document.
+// Filenames may use $(find pkg), $(arg name) and $(dirname). Includes whose filename
+// depends on ${properties} are left for xacro-parser, as are missing files inside
+// conditionals (they may never be evaluated).
+export async function resolveXacroIncludes(
+  entryPath: string,
+  content: string,
+  source: ModelFileSource,
+  args: Record<string, string> = {},
+): Promise<string> {
+  const argDefaults: Record<string, string> = {};
+
+  const substitute = (value: string, currentPath: string, chain: string[]) => value
+    .replace(/\$\(find\s+([^)\s]+)\)/g, 'package://$1')
+    .replace(/\$\(dirname\)/g, dirname(currentPath))
+    .replace(/\$\(arg\s+([^)\s]+)\)/g, (_, name: string) => {
+      const v = args[name] ?? argDefaults[name];
+      if (v === undefined) throw new IncludeError(`Undefined argument "${name}"`, chain);
+      return v;
+    });
+
+  const expandChildren = async (parent: Element, currentPath: string, chain: string[], conditional: boolean): Promise<void> => {
+    for (const child of Array.from(parent.children)) {
+      if (isXacroTag(child, 'arg')) {
+        const name = child.getAttribute('name');
+        const def = child.getAttribute('default');
+        if (name && def !== null && !(name in argDefaults)) argDefaults[name] = substitute(def, currentPath, chain);
+        continue;
+      }
+      if (!isXacroTag(child, 'include')) {
+        const nested = conditional || isXacroTag(child, 'if') || isXacroTag(child, 'unless') || isXacroTag(child, 'macro');
+        await expandChildren(child, currentPath, chain, nested);
+        continue;
+      }
+
+      const rawFilename = child.getAttribute('filename') || '';
+      if (rawFilename.includes('${')) {
+        // Make relative paths absolute so xacro-parser resolves them from the right directory
+        if (!/^(\$\(|[a-z]+:\/\/|\/)/.test(rawFilename)) child.setAttribute('filename', joinPath(dirname(currentPath), rawFilename));
+        continue;
+      }
+
+      const filename = substitute(rawFilename, currentPath, chain);
+      const path = rawFilename.startsWith('$(dirname)')
+        ? source.resolve(normalizePath(filename), '')
+        : source.resolve(filename, currentPath);
+
+      if (chain.includes(path)) {
+        throw new IncludeError(`Include cycle: "${path}" includes itself`, [...chain, path]);
+      }
+
+      const text = await source.read(path);
+      if (text === null) {
+        if (conditional) {
+          child.setAttribute('filename', path);
+          continue;
+        }
+        throw new IncludeError(`Cannot find included file "${rawFilename}" (resolved to "${path}")`, [...chain, path]);
+      }
+
+      const includedChain = [...chain, path];
+      const included = parseXmlFile(text, includedChain).documentElement;
+      await expandChildren(included, path, includedChain, false);
+
+      const ns = child.getAttribute('ns');
+      if (ns) applyNamespace(included, ns);
+
+      const doc = parent.ownerDocument;
+      Array.from(included.childNodes).forEach(node => parent.insertBefore(doc.importNode(node, true), child));
+      parent.removeChild(child);
+    }
+  };
+
+  const doc = parseXmlFile(content, [entryPath]);
+  await expandChildren(doc.documentElement, entryPath, [entryPath], false);
+  return new XMLSerializer().serializeToString(doc);
+}
+
+// File reader for the includes left to xacro-parser, which passes paths it built itself
+export function createIncludeReader(source: ModelFileSource) {
+  return async (path: string): Promise<string> => {
+    const resolved = source.resolve(path, '');
+    const text = await source.read(resolved);
+    if (text === null) throw new Error(`Cannot find included file "${path}" (resolved to "${resolved}")`);
+    return text;
+  };
+}
+
+// Expands a xacro file to URDF text: includes first (see resolveXacroIncludes), then macros, properties and conditionals
+export async function expandXacro(
+  entryPath: string,
+  content: string,
+  source: ModelFileSource,
+  args: Record<string, string> = {},
+): Promise<string> {
+  const resolved = await resolveXacroIncludes(entryPath, content, source, args);
+
+  const parser = new XacroParser();
+  parser.rospackCommands = { find: (pkg: string) => `package://${pkg}` };
+  parser.arguments = args;
+  // Includes whose filename is built from ${properties} are loaded by the parser itself
+  parser.getFileContents = createIncludeReader(source);
+  const xml = await parser.parse(resolved);
+  return new XMLSerializer().serializeToString(xml);
+}
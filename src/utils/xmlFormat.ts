@@ -0,0 +1,43 @@
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Serializes a document with one element per line, so line numbers in reports stay meaningful
+export function formatXml(doc: Document, indent = '  '): string {
+  const lines: string[] = ['<?xml version="1.0"?>'];
+
+  const write = (node: Node, depth: number) => {
+    const pad = indent.repeat(depth);
+    if (node.nodeType === Node.COMMENT_NODE) {
+      lines.push(`${pad}<!--${node.nodeValue}-->`);
+      return;
+    }
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      const text = (node.nodeValue || '').trim();
+      if (text) lines.push(pad + escapeXml(text));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = node as Element;
+    const attrs = Array.from(el.attributes).map(a => ` ${a.name}="${escapeXml(a.value)}"`).join('');
+    const children = Array.from(el.childNodes).filter(c =>
+      c.nodeType === Node.ELEMENT_NODE || c.nodeType === Node.COMMENT_NODE || (c.nodeValue || '').trim() !== ''
+    );
+
+    if (children.length === 0) {
+      lines.push(`${pad}<${el.tagName}${attrs}/>`);
+    } else if (children.length === 1 && children[0].nodeType === Node.TEXT_NODE) {
+      lines.push(`${pad}<${el.tagName}${attrs}>${escapeXml((children[0].nodeValue || '').trim())}</${el.tagName}>`);
+    } else {
+      lines.push(`${pad}<${el.tagName}${attrs}>`);
+      children.forEach(c => write(c, depth + 1));
+      lines.push(`${pad}</${el.tagName}>`);
+    }
+  };
+
+  Array.from(doc.childNodes).forEach(n => write(n, 0));
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,118 @@
+// Helpers for the source editor: highlighting, well-formedness and locating elements in XML text
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+const span = (cls: string, text: string) => `<span class="xml-${cls}">${escapeHtml(text)}</span>`;
+
+// ${expressions} and $(substitutions) of xacro, inside attribute values and text
+const highlightExpressions = (text: string, cls: string) => text
+  .split(/(\$\{[^}]*\}|\$\([^)]*\))/)
+  .map((part, i) => (i % 2 === 1 ? span('expr', part) : part ? span(cls, part) : ''))
+  .join('');
+
+const TAG_NAME = /<\/?[^\s/>]*/y;
+const ATTRIBUTE = /([^\s=/>]+)(\s*=\s*)("[^"]*"?|'[^']*'?)?/y;
+
+// HTML with a span per token; the text itself is unchanged, so it lines up with a textarea over it
+export function highlightXml(text: string): string {
+  let html = '';
+  let i = 0;
+  const block = (start: string, end: string, cls: string) => {
+    if (!text.startsWith(start, i)) return false;
+    const close = text.indexOf(end, i + start.length);
+    const next = close === -1 ? text.length : close + end.length;
+    html += span(cls, text.slice(i, next));
+    i = next;
+    return true;
+  };
+
+  while (i < text.length) {
+    if (block('<!--', '-->', 'comment') || block('<![CDATA[', ']]>', 'text') || block('<?', '?>', 'meta')) continue;
+
+    if (text[i] !== '<') {
+      const next = text.indexOf('<', i);
+      const end = next === -1 ? text.length : next;
+      html += highlightExpressions(text.slice(i, end), 'text');
+      i = end;
+      continue;
+    }
+
+    TAG_NAME.lastIndex = i;
+    const name = TAG_NAME.exec(text)![0];
+    html += span('tag', name);
+    i += name.length;
+    while (i < text.length && text[i] !== '<') {
+      if (text[i] === '>' || text.startsWith('/>', i)) {
+        const end = text[i] === '>' ? 1 : 2;
+        html += span('tag', text.slice(i, i + end));
+        i += end;
+        break;
+      }
+      ATTRIBUTE.lastIndex = i;
+      const attr = ATTRIBUTE.exec(text);
+      if (attr) {
+        html += span('attr', attr[1]) + escapeHtml(attr[2] || '') + (attr[3] ? highlightExpressions(attr[3], 'string') : '');
+        i += attr[0].length;
+      } else {
+        html += escapeHtml(text[i]);
+        i++;
+      }
+    }
+  }
+  return html;
+}
+
+export interface XmlError {
+  message: string;
+  // 1-based, if the parser reported it
+  line: number | null;
+}
+
+// First well-formedness error of the text, or null
+export function findXmlError(text: string): XmlError | null {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (!parserError) return null;
+  const message = (parserError.textContent || '').trim();
+  // "error on line 5 at column 3" (Chromium), "Line Number 5, Column 3" (Firefox), "5:3: ..." (jsdom)
+  const line = message.match(/line(?: number)?\s+(\d+)/i) ?? message.match(/^(\d+):\d+:/);
+  return { message: message.split('\n')[0], line: line ? parseInt(line[1], 10) : null };
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Offset of the start tag <tag ... name="name">, or -1
+export function findElementOffset(text: string, tag: string, name: string): number {
+  const match = new RegExp(`<${tag}\\s[^>]*?\\bname\\s*=\\s*["']${escapeRegExp(name)}["']`).exec(text);
+  return match ? match.index : -1;
+}
+
+// Name of the <tag> element whose start tag or content contains `offset`
+export function enclosingElementName(text: string, offset: number, tag: string): string | null {
+  const open = new RegExp(`<${tag}[\\s>]`, 'g');
+  let start = -1;
+  for (let m = open.exec(text); m && m.index < offset; m = open.exec(text)) start = m.index;
+  if (start === -1) return null;
+
+  const startTagEnd = text.indexOf('>', start);
+  if (startTagEnd === -1) return null;
+  const selfClosing = text[startTagEnd - 1] === '/';
+  const end = selfClosing ? startTagEnd + 1 : text.indexOf(`</${tag}>`, startTagEnd);
+  if (end !== -1 && end + (selfClosing ? 0 : tag.length + 3) < offset) return null;
+  return text.slice(start, startTagEnd).match(/\bname\s*=\s*["']([^"']*)["']/)?.[1] ?? null;
+}
+
+export const lineOfOffset = (text: string, offset: number) => text.slice(0, offset).split('\n').length;
+
+export const offsetOfLine = (text: string, line: number) => {
+  let offset = 0;
+  for (let i = 1; i < line; i++) {
+    const next = text.indexOf('\n', offset);
+    if (next === -1) return text.length;
+    offset = next + 1;
+  }
+  return offset;
+};
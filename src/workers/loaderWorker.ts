@@ -0,0 +1,118 @@
+// Runs in the worker pool (see utils/workerPool.ts): fetches and decodes mesh files, expands xacro and
+// parses URDF text, sending the results back with their buffers transferred
+import './xmlDom';
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
+import { TGALoader } from 'three/examples/jsm/loaders/TGALoader.js';
+import { geometryBuffers, toGeometryData } from '../utils/geometryData';
+import { toSceneData } from '../utils/sceneData';
+import { describeUrdf } from '../utils/urdfDescription';
+import { expandXacro } from '../utils/xacroResolver';
+import { createHttpFileSource, createLocalFileSource, ModelFileSource, withEdits } from '../utils/fileSource';
+// Types only: importing the pool itself would pull the worker into its own bundle
+import type { DecodedObjPart, WorkerRequest, WorkerResponse, XacroJob } from '../utils/workerPool';
+
+// The project compiles against the DOM library; this is the part of the worker scope used here
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+// There are no images here: textures become placeholders that remember their URL and are loaded
+// on the main thread (see utils/sceneData.ts)
+function placeholderTexture(this: THREE.Loader, url: string) {
+  const texture = new THREE.Texture();
+  texture.userData.url = this.path + url;
+  return texture;
+}
+THREE.TextureLoader.prototype.load = placeholderTexture;
+TGALoader.prototype.load = placeholderTexture as unknown as TGALoader['load'];
+
+function decodeObj(buffer: ArrayBuffer): { parts: DecodedObjPart[]; mtllib: string | null } {
+  const text = new TextDecoder().decode(buffer);
+  const parts: DecodedObjPart[] = [];
+  new OBJLoader().parse(text).children.forEach(child => {
+    const object = child as THREE.Mesh;
+    const materials = (Array.isArray(object.material) ? object.material : [object.material]) as THREE.Material[];
+    parts.push({
+      type: (object as THREE.Object3D as THREE.LineSegments).isLineSegments ? 'LineSegments' : (object as THREE.Object3D as THREE.Points).isPoints ? 'Points' : 'Mesh',
+      name: object.name,
+      geometry: toGeometryData(object.geometry),
+      materials: materials.map(m => ({ name: m.name, vertexColors: m.vertexColors, flatShading: !!(m as THREE.MeshPhongMaterial).flatShading })),
+    });
+  });
+  return { parts, mtllib: text.match(/^\s*mtllib\s+(.+?)\s*$/m)?.[1] ?? null };
+}
+
+async function decodeMesh(id: number, format: string, url: string) {
+  let buffer: ArrayBuffer;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      scope.postMessage({ id, error: `HTTP ${response.status}`, status: response.status });
+      return;
+    }
+    buffer = await response.arrayBuffer();
+  } catch (err) {
+    scope.postMessage({ id, error: errorMessage(err), network: true });
+    return;
+  }
+
+  try {
+    const bytes = buffer.byteLength;
+    if (format === 'obj') {
+      const { parts, mtllib } = decodeObj(buffer);
+      scope.postMessage({ id, bytes, parts, mtllib }, parts.flatMap(p => geometryBuffers(p.geometry)));
+      return;
+    }
+    if (format === 'dae') {
+      // Textures are looked up next to the file, as ColladaLoader.load does
+      const collada = new ColladaLoader().parse(new TextDecoder().decode(buffer), THREE.LoaderUtils.extractUrlBase(url));
+      const { scene, transfer } = toSceneData(collada.scene);
+      scope.postMessage({ id, bytes, scene }, transfer);
+      return;
+    }
+    const geometry = format === 'ply' ? new PLYLoader().parse(buffer) : new STLLoader().parse(buffer);
+    if (!geometry.attributes.normal) geometry.computeVertexNormals();
+    const data = toGeometryData(geometry);
+    scope.postMessage({ id, bytes, geometry: data }, geometryBuffers(data));
+  } catch (err) {
+    scope.postMessage({ id, error: errorMessage(err) });
+  }
+}
+
+async function expand(id: number, job: XacroJob) {
+  let source: ModelFileSource;
+  if (job.files) {
+    source = createLocalFileSource(job.files, job.packages);
+  } else {
+    const http = createHttpFileSource(job.baseUrl, job.packages);
+    source = { resolve: http.resolve, read: path => http.read(new URL(path, job.pageUrl).href) };
+  }
+  const reads = new Map<string, string>();
+  try {
+    const urdf = await expandXacro(job.path, job.content, withEdits(source, job.edits, reads), job.args);
+    scope.postMessage({ id, urdf, reads });
+  } catch (err) {
+    scope.postMessage({ id, error: errorMessage(err) });
+  }
+}
+
+scope.onmessage = ({ data: request }) => {
+  if (request.kind === 'mesh') {
+    decodeMesh(request.id, request.format, request.url);
+  } else if (request.kind === 'xacro') {
+    expand(request.id, request.job);
+  } else {
+    try {
+      scope.postMessage({ id: request.id, description: describeUrdf(request.text) });
+    } catch (err) {
+      scope.postMessage({ id: request.id, error: errorMessage(err) });
+    }
+  }
+};
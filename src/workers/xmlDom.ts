@@ -0,0 +1,33 @@
+// Workers have no DOM; this installs an XML-only one (xmldom) in the worker scope, so the parsing code
+// shared with the main thread (xacro expansion, the URDF description, ColladaLoader) runs there unchanged.
+// Import it before anything that parses XML.
+import { Document, DOMParser as XmlDomParser, Element, Node, NodeList, ParseError, XMLSerializer } from '@xmldom/xmldom';
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Browsers report malformed XML as a document with a <parsererror> element instead of throwing,
+// which is what the shared code checks for
+class DOMParser {
+  parseFromString(text: string, mimeType: string) {
+    try {
+      return new XmlDomParser({ onError: () => {} }).parseFromString(text, mimeType);
+    } catch (err) {
+      if (!(err instanceof ParseError)) throw err;
+      return new XmlDomParser().parseFromString(`<parsererror>${escapeXml(err.message)}</parsererror>`, 'text/xml');
+    }
+  }
+}
+
+// The parts of the DOM the shared code uses that xmldom does not have
+Object.defineProperty(NodeList.prototype, 'forEach', {
+  value(this: NodeList, callback: (node: Node, index: number) => void) {
+    for (let i = 0; i < this.length; i++) callback(this[i], i);
+  },
+});
+[Element.prototype, Document.prototype].forEach(prototype => Object.defineProperty(prototype, 'firstElementChild', {
+  get(this: Element | Document) {
+    return this.children[0] ?? null;
+  },
+}));
+
+Object.assign(self, { DOMParser, XMLSerializer, Node });